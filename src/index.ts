@@ -1,2 +1,20 @@
-export { Design, Injector } from './internal/design';
+export { Design, Family, Finalizable, Injector } from './internal/design';
 export { inject, injectClass } from './internal/helper';
+export { declareDependencies } from './internal/metadata';
+export { signalOf } from './internal/cancellation';
+export { Provider, providerOf } from './internal/provider';
+export { ApplicationOptions, runApplication, ShutdownSignal, SignalSource } from './internal/application';
+export {
+    CyclicDependencyError,
+    EnvironmentError,
+    FinalizationError,
+    InvalidVariable,
+    ResolutionError,
+    TimeoutError,
+} from './internal/errors';
+export { Environment, EnvSchema, EnvValue, Variable } from './internal/environment';
+export { DependencyGraph, toDot, toJSON, toMermaid } from './internal/graph';
+export { FinalizationEvent, Observer, ResolutionEvent, TimingReporter } from './internal/observer';
+export { FactoryDuration, ReportOptions, UsageReport } from './internal/report';
+export { FailedAttempt, RetryOptions } from './internal/retry';
+export { MissingDependency, ValidationReport } from './internal/validation';
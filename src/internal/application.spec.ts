@@ -0,0 +1,146 @@
+import { runApplication, ShutdownSignal, SignalSource } from './application';
+import { Design } from './design';
+import { FinalizationError } from './errors';
+
+const fakeSignals = () => {
+    const listeners = new Map<ShutdownSignal, (() => void)[]>();
+    const source: SignalSource & { emit: (signal: ShutdownSignal) => void; count: () => number } = {
+        on: (signal, listener) => listeners.set(signal, [...(listeners.get(signal) || []), listener]),
+        removeListener: (signal, listener) =>
+            listeners.set(
+                signal,
+                (listeners.get(signal) || []).filter(l => l !== listener),
+            ),
+        emit: signal => (listeners.get(signal) || []).forEach(listener => listener()),
+        count: () => Array.from(listeners.values()).reduce((acc, ls) => acc + ls.length, 0),
+    };
+    return source;
+};
+
+describe('runApplication', () => {
+    const design = (called: string[], finalize: () => Promise<void> = async () => undefined) =>
+        Design.bind(
+            'server',
+            async () => 'server',
+            async () => {
+                called.push('finalize');
+                await finalize();
+            },
+        );
+
+    it('runs main and finalizes the container', async () => {
+        const called: string[] = [];
+        const signals = fakeSignals();
+        const exit = jest.fn();
+
+        const code = await runApplication(
+            design(called),
+            {},
+            async ({ server }) => {
+                called.push(`main with ${server}`);
+            },
+            { signals, exit },
+        );
+
+        expect(code).toBe(0);
+        expect(exit).toHaveBeenCalledWith(0);
+        expect(called).toEqual(['main with server', 'finalize']);
+        expect(signals.count()).toBe(0);
+    });
+
+    it('aborts the signal for main on the first signal', async () => {
+        const called: string[] = [];
+        const signals = fakeSignals();
+        const exit = jest.fn();
+
+        const code = await runApplication(
+            design(called),
+            {},
+            async (_, signal) => {
+                setTimeout(() => signals.emit('SIGTERM'), 10);
+                await new Promise(resolve => signal.addEventListener('abort', resolve));
+                called.push('aborted');
+            },
+            { signals, exit },
+        );
+
+        expect(code).toBe(0);
+        expect(exit).toHaveBeenCalledTimes(1);
+        expect(called).toEqual(['aborted', 'finalize']);
+    });
+
+    it('finalizes the container on the first signal even if main never returns', async () => {
+        const called: string[] = [];
+        const signals = fakeSignals();
+        const exit = jest.fn();
+
+        const code = await runApplication(
+            design(called),
+            {},
+            async () => {
+                setTimeout(() => signals.emit('SIGINT'), 10);
+                await new Promise(() => undefined);
+            },
+            { signals, exit },
+        );
+
+        expect(code).toBe(0);
+        expect(exit.mock.calls).toEqual([[0]]);
+        expect(called).toEqual(['finalize']);
+    });
+
+    it('exits immediately on the second signal', async () => {
+        const called: string[] = [];
+        const signals = fakeSignals();
+        const exit = jest.fn();
+
+        const code = await runApplication(
+            design(called, async () => {
+                signals.emit('SIGINT');
+            }),
+            {},
+            async () => {
+                signals.emit('SIGINT');
+            },
+            { signals, exit },
+        );
+
+        expect(code).toBe(130);
+        expect(exit.mock.calls).toEqual([[130]]);
+    });
+
+    it('exits with 1 when main fails', async () => {
+        const called: string[] = [];
+        const onError = jest.fn();
+        const exit = jest.fn();
+
+        const code = await runApplication(
+            design(called),
+            {},
+            async () => {
+                throw new Error('main fails');
+            },
+            { signals: fakeSignals(), exit, onError },
+        );
+
+        expect(code).toBe(1);
+        expect(exit).toHaveBeenCalledWith(1);
+        expect(onError.mock.calls[0][0].message).toBe('main fails');
+        expect(called).toEqual(['finalize']);
+    });
+
+    it('exits with 1 when the finalization exceeds the grace period', async () => {
+        const onError = jest.fn();
+
+        const code = await runApplication(
+            design([], () => new Promise(resolve => setTimeout(resolve, 1000))),
+            {},
+            async () => undefined,
+            { signals: fakeSignals(), exit: jest.fn(), onError, gracePeriod: 10 },
+        );
+
+        expect(code).toBe(1);
+        expect(onError.mock.calls[0][0]).toBeInstanceOf(FinalizationError);
+        expect(onError.mock.calls[0][0].message).toBe('failed to finalize "server" because: timed out after 10ms');
+    });
+});
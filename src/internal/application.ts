@@ -0,0 +1,105 @@
+import { Container, Definition, Design, Requirements, ResolveOptions } from './design';
+
+export type ShutdownSignal = 'SIGINT' | 'SIGTERM';
+
+/**
+ * Source of shutdown signals, i.g. `process`.
+ */
+export interface SignalSource {
+    on(signal: ShutdownSignal, listener: () => void): unknown;
+    removeListener(signal: ShutdownSignal, listener: () => void): unknown;
+}
+
+export interface ApplicationOptions extends ResolveOptions {
+    // Defaults to `process`.
+    signals?: SignalSource;
+    // Defaults to `process.exit`.
+    exit?: (code: number) => void;
+    // Milliseconds to wait for the finalization. Overrides `finalizeTimeout`.
+    gracePeriod?: number;
+    // Called with the error which makes the application fail. Defaults to `console.error`.
+    onError?: (error: unknown) => void;
+}
+
+// Declared here not to depend on the types of Node.js.
+declare const process: SignalSource & { exit(code: number): void };
+
+const shutdownSignals: ShutdownSignal[] = ['SIGINT', 'SIGTERM'];
+const signalNumbers: { [P in ShutdownSignal]: number } = { SIGINT: 2, SIGTERM: 15 };
+
+/**
+ * Runs main with the resolved container, then finalizes it and exits.
+ * Resolves to the exit code, which is useful when `exit` does not end the process.
+ * The first SIGINT or SIGTERM aborts the signal given to main, and finalizes the container without waiting for main.
+ * The second signal exits immediately without waiting for the finalization.
+ *
+ * Exit codes:
+ * - 0: main and the finalization succeeded
+ * - 1: the resolution, main or the finalization failed
+ * - 128 + the signal number: exited by the second signal
+ *
+ * i.g.)
+ * ```
+ * runApplication(design, { port: 8080 }, async ({ server }, signal) => {
+ *   await server.listen();
+ *   await new Promise(resolve => signal.addEventListener('abort', resolve));
+ * }, { gracePeriod: 10000 });
+ * ```
+ */
+export const runApplication = async <T extends Definition>(
+    design: Design<T>,
+    requirements: Requirements<T>,
+    main: (container: Container<T>, signal: AbortSignal) => Promise<unknown>,
+    options: ApplicationOptions = {},
+): Promise<number> => {
+    const {
+        signals = process,
+        exit = (code: number) => process.exit(code),
+        gracePeriod,
+        onError = console.error,
+        ...resolveOptions
+    } = options;
+    const controller = new AbortController();
+    const aborted = new Promise<void>(resolve => controller.signal.addEventListener('abort', () => resolve()));
+    let exitCode: number | undefined;
+    const exitOnce = (code: number) => {
+        if (typeof exitCode === 'undefined') {
+            exitCode = code;
+            exit(code);
+        }
+    };
+
+    const listeners = shutdownSignals.map((signal): [ShutdownSignal, () => void] => [
+        signal,
+        () => {
+            if (controller.signal.aborted) {
+                exitOnce(128 + signalNumbers[signal]);
+            } else {
+                controller.abort();
+            }
+        },
+    ]);
+    listeners.forEach(([signal, listener]) => signals.on(signal, listener));
+
+    let code = 0;
+    try {
+        await design.use(requirements, {
+            ...resolveOptions,
+            finalizeTimeout: typeof gracePeriod === 'undefined' ? resolveOptions.finalizeTimeout : gracePeriod,
+        })(container => {
+            const running = main(container, controller.signal);
+            // Failures of main after the signal are ignored since the application is already shutting down.
+            const shutdown = aborted.then(() => {
+                running.catch(() => undefined);
+            });
+            return Promise.race([running, shutdown]);
+        });
+    } catch (e) {
+        onError(e);
+        code = 1;
+    } finally {
+        listeners.forEach(([signal, listener]) => signals.removeListener(signal, listener));
+    }
+    exitOnce(code);
+    return exitCode as number;
+};
@@ -0,0 +1,48 @@
+const signals: WeakMap<object, AbortSignal> = new WeakMap();
+
+export const attachSignal = (injector: object, signal: AbortSignal): void => {
+    signals.set(injector, signal);
+};
+
+/**
+ * Returns AbortSignal for the injector given to a factory.
+ * It is aborted when the binding times out, or when the resolution fails.
+ *
+ * i.g.)
+ * ```
+ * Design.bind('db', async (injector: Injector<{ config: Config }>) =>
+ *   connect(await injector.config, { signal: signalOf(injector) }),
+ * );
+ * ```
+ */
+export const signalOf = (injector: object): AbortSignal => {
+    const signal = signals.get(injector);
+    if (typeof signal === 'undefined') {
+        throw new Error('signal is not found for the injector');
+    }
+    return signal;
+};
+
+/**
+ * Rejects with the result of onTimeout unless the promise settles in `timeout` milliseconds.
+ */
+export const withTimeout = <V>(
+    promise: Promise<V>,
+    timeout: number | undefined,
+    onTimeout: () => unknown,
+): Promise<V> =>
+    typeof timeout === 'undefined'
+        ? promise
+        : new Promise((resolve, reject) => {
+              const timer = setTimeout(() => reject(onTimeout()), timeout);
+              promise.then(
+                  value => {
+                      clearTimeout(timer);
+                      resolve(value);
+                  },
+                  error => {
+                      clearTimeout(timer);
+                      reject(error);
+                  },
+              );
+          });
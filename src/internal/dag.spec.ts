@@ -1,4 +1,5 @@
 import { DAG } from './dag';
+import { CyclicDependencyError } from './errors';
 
 describe('DAG', () => {
     describe('add', () => {
@@ -11,8 +12,17 @@ describe('DAG', () => {
                 dag.addEdge('4', '1');
             } catch (e) {
                 expect((e as Error).message).toEqual('cyclic dependency detected: 4 -> 1 -> 2 -> 3 -> 4');
+                expect(e).toBeInstanceOf(CyclicDependencyError);
+                expect((e as CyclicDependencyError).cycle).toEqual(['4', '1', '2', '3', '4']);
             }
         });
+
+        it('does not keep the edge which causes cyclic dependency', () => {
+            const dag = new DAG<string>();
+            dag.addEdge('1', '2');
+            expect(() => dag.addEdge('2', '1')).toThrow();
+            expect(dag.dependenciesForEachDepth()).toEqual([['1'], ['2']]);
+        });
     });
 
     describe('forEachFromLessDependencies', () => {
@@ -27,4 +37,19 @@ describe('DAG', () => {
             expect(dependencies).toEqual([['a1', 'a2'], ['b'], ['c1', 'c2']]);
         });
     });
+
+    describe('edges', () => {
+        it('returns each dependency as a pair', () => {
+            const dag = new DAG<string>();
+            dag.addEdge('a', 'b');
+            dag.addEdge('a', 'c');
+            dag.addNode('d');
+
+            expect(dag.nodes()).toEqual(['b', 'a', 'c', 'd']);
+            expect(dag.edges()).toEqual([
+                ['a', 'b'],
+                ['a', 'c'],
+            ]);
+        });
+    });
 });
@@ -1,3 +1,5 @@
+import { CyclicDependencyError } from './errors';
+
 /**
  * DAG representing dependencies.
  * For example, this mapping means item1 depends on item2 and item3.
@@ -18,7 +20,9 @@ export class DAG<T> {
 
         const cycle = this.detectCyclicDependency(from);
         if (typeof cycle !== 'undefined') {
-            throw new Error(`cyclic dependency detected: ${cycle.join(' -> ')}`);
+            // Keep the graph acyclic so that it can still be traversed after the failure.
+            dependencies.delete(to);
+            throw new CyclicDependencyError(cycle);
         }
     };
 
@@ -56,6 +60,17 @@ export class DAG<T> {
         return go(clone, []);
     };
 
+    public nodes = (): T[] => Array.from(this.map.keys());
+
+    /**
+     * Returns pairs of a node and a node it depends on.
+     */
+    public edges = (): [T, T][] =>
+        Array.from(this.map).reduce(
+            (acc, [from, dependencies]) => [...acc, ...Array.from(dependencies).map((to): [T, T] => [from, to])],
+            [] as [T, T][],
+        );
+
     private ensureNode = (node: T): Set<T> => {
         const set = this.map.get(node) || new Set<T>();
         this.map.set(node, set);
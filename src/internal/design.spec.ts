@@ -1,5 +1,8 @@
 import { Design, Injector } from './design';
+import { signalOf } from './cancellation';
+import { CyclicDependencyError, FinalizationError, ResolutionError, TimeoutError } from './errors';
 import { injectClass } from './helper';
+import { Provider, providerOf } from './provider';
 
 describe('Design', () => {
     interface HasKey1 {
@@ -59,11 +62,718 @@ describe('Design', () => {
             expect(finalized).toBe(true);
         });
 
+        it('registers Symbol.asyncDispose or Symbol.dispose as finalizer', async () => {
+            const called: string[] = [];
+            class AsyncDisposableResource {
+                public async [Symbol.asyncDispose](): Promise<void> {
+                    called.push('asyncDisposable');
+                }
+            }
+            class DisposableResource {
+                public [Symbol.dispose](): void {
+                    called.push('disposable');
+                }
+            }
+            const { finalize } = await Design.bindResource('asyncDisposable', () => new AsyncDisposableResource())
+                .bindResource('disposable', async injector => {
+                    await injector.asyncDisposable;
+                    return new DisposableResource();
+                })
+                .resolve({});
+
+            await finalize();
+
+            expect(called).toEqual(['disposable', 'asyncDisposable']);
+        });
+
         class NotResource {}
         // @ts-expect-error Should not be assignable to Resource
         Design.bindResource('notResource', injectClass(NotResource, []));
     });
 
+    describe('bindTransient', () => {
+        it('resolves a new value for each access', async () => {
+            let counter = 0;
+            const finalized: number[] = [];
+            const design = Design.bindTransient(
+                'transient',
+                () => {
+                    counter += 1;
+                    return counter;
+                },
+                async (item: number) => {
+                    finalized.push(item);
+                },
+            )
+                .bind('dependent1', async (injector: Injector<{ transient: number }>) => injector.transient)
+                .bind('dependent2', async (injector: Injector<{ transient: number }>) => injector.transient);
+
+            const { container, finalize } = await design.resolve({});
+            expect(counter).toBe(3);
+            expect(new Set([container.transient, container.dependent1, container.dependent2]).size).toBe(3);
+
+            await finalize();
+            expect(finalized.sort()).toEqual([1, 2, 3]);
+        });
+    });
+
+    describe('bindFactory', () => {
+        it('injects a function which creates a new value for each call', async () => {
+            const called: string[] = [];
+            const design = Design.bind('key1', resolveKey1, async () => {
+                called.push('key1');
+            })
+                .bindFactory('createKey2', resolveKey2, async item => {
+                    called.push(`createKey2: ${item}`);
+                })
+                .bind('user', async (injector: Injector<{ createKey2: () => Promise<string> }>) => {
+                    const createKey2 = await injector.createKey2;
+                    return [await createKey2(), await createKey2()];
+                });
+
+            const { container, finalize } = await design.resolve({});
+            expect(container.user).toEqual(['key1 is 123', 'key1 is 123']);
+
+            await finalize();
+            expect(called).toEqual(['createKey2: key1 is 123', 'createKey2: key1 is 123', 'key1']);
+        });
+
+        it('rejects calls once finalized, finalizing values created meanwhile', async () => {
+            const called: string[] = [];
+            const { container, finalize } = await Design.bindFactory(
+                'create',
+                async () => {
+                    await new Promise(resolve => setTimeout(resolve, 20));
+                    return 'created';
+                },
+                async item => {
+                    called.push(`finalize ${item}`);
+                },
+            ).resolve({});
+
+            const creating = container.create();
+            await finalize();
+            await expect(creating).rejects.toThrow('already finalized');
+            await expect(container.create()).rejects.toThrow('already finalized');
+            expect(called).toEqual(['finalize created']);
+        });
+
+        it('applies timeout and retry to each call', async () => {
+            let attempts = 0;
+            const { container } = await Design.bindFactory(
+                'create',
+                async () => {
+                    attempts += 1;
+                    if (attempts % 2 === 1) {
+                        throw new Error('flaky');
+                    }
+                    return attempts;
+                },
+                undefined,
+                { retry: { attempts: 2, delay: 0 } },
+            )
+                .bindFactory('hang', () => new Promise<never>(() => undefined), undefined, { timeout: 10 })
+                .resolve({});
+
+            expect(await container.create()).toBe(2);
+            expect(await container.create()).toBe(4);
+            await expect(container.hang()).rejects.toThrow('timed out after 10ms');
+        });
+    });
+
+    describe('bindDefault', () => {
+        const library = Design.bindDefault('key1', resolveKey1).bind('key2', resolveKey2);
+
+        it('binds the value unless the key is bound otherwise', async () => {
+            const { container } = await library.resolve({});
+            expect(container).toEqual({ key1: 123, key2: 'key1 is 123' });
+        });
+
+        it('is replaced by any other binding regardless of the order', async () => {
+            const application = Design.bind('key1', () => 456);
+            expect((await library.merge(application).resolve({})).container.key2).toBe('key1 is 456');
+            expect((await application.merge(library).resolve({})).container.key2).toBe('key1 is 456');
+            expect((await application.bindDefault('key1', () => 789).resolve({})).container.key1).toBe(456);
+            expect(() => library.merge(application, { onConflict: 'error' })).not.toThrow();
+        });
+
+        it('replaces the other default', async () => {
+            const { container } = await library.bindDefault('key1', () => 456).resolve({});
+            expect(container.key1).toBe(456);
+        });
+    });
+
+    describe('optional dependencies', () => {
+        const design = Design.bind(
+            'key2',
+            async (injector: Injector<{ key1?: number }>) => `key1 is ${(await injector.key1) ?? 'unbound'}`,
+        );
+
+        it('resolves undefined for unbound keys', async () => {
+            expect((await design.resolve({})).container.key2).toBe('key1 is unbound');
+        });
+
+        it('resolves bound or given values', async () => {
+            expect((await design.resolve({ key1: 1 })).container.key2).toBe('key1 is 1');
+            expect(
+                (
+                    await Design.bind('key1', () => 2)
+                        .merge(design)
+                        .resolve({})
+                ).container.key2,
+            ).toBe('key1 is 2');
+        });
+
+        it('is required if another binding requires it', () => {
+            // @ts-expect-error Should require key1
+            design.bind('key3', (injector: Injector<{ key1: number }>) => injector.key1).resolve({});
+        });
+    });
+
+    describe('bindFamily', () => {
+        const build = (called: string[]) =>
+            Design.bind(
+                'config',
+                () => 'config',
+                async () => {
+                    called.push('config');
+                },
+            ).bindFamily(
+                'tenantDb',
+                async (tenantId: string, injector) => {
+                    called.push(`create ${tenantId}`);
+                    return { tenantId, config: await injector.config };
+                },
+                async ({ tenantId }) => {
+                    called.push(`finalize ${tenantId}`);
+                },
+            );
+
+        it('creates a member for each parameter once', async () => {
+            const called: string[] = [];
+            const { container, graph } = await build(called).resolve({});
+
+            const a = await container.tenantDb.get('a');
+            expect(a).toEqual({ tenantId: 'a', config: 'config' });
+            expect(await container.tenantDb.get('a')).toBe(a);
+            expect(await container.tenantDb.get('b')).toEqual({ tenantId: 'b', config: 'config' });
+            expect(called).toEqual(['create a', 'create b']);
+            expect(graph().edges).toEqual([
+                { from: 'tenantDb', to: 'tenantDb(a)' },
+                { from: 'tenantDb', to: 'tenantDb(b)' },
+                { from: 'tenantDb(a)', to: 'config' },
+                { from: 'tenantDb(b)', to: 'config' },
+            ]);
+        });
+
+        it('finalizes members before their dependencies', async () => {
+            const called: string[] = [];
+            const { container, finalize } = await build(called).resolve({});
+            await container.tenantDb.get('a');
+
+            await finalize();
+            expect(called).toEqual(['create a', 'finalize a', 'config']);
+            await expect(container.tenantDb.get('a')).rejects.toThrow('already finalized');
+        });
+
+        it('finalizes the evicted member only', async () => {
+            const called: string[] = [];
+            const { container, finalize } = await build(called).resolve({});
+            const a = await container.tenantDb.get('a');
+            await container.tenantDb.get('b');
+
+            await container.tenantDb.evict('a');
+            expect(called).toEqual(['create a', 'create b', 'finalize a']);
+            expect(await container.tenantDb.get('a')).not.toBe(a);
+
+            await finalize();
+            expect(called.slice(4).sort()).toEqual(['config', 'finalize a', 'finalize b']);
+            expect(called[called.length - 1]).toBe('config');
+        });
+
+        it('keeps members of a number and a string apart', async () => {
+            const called: string[] = [];
+            const { container, graph } = await Design.bindFamily(
+                'tenantDb',
+                async (tenantId: string | number) => {
+                    called.push(`create ${typeof tenantId} ${tenantId}`);
+                    return { tenantId };
+                },
+                async ({ tenantId }) => {
+                    called.push(`finalize ${typeof tenantId} ${tenantId}`);
+                },
+            ).resolve({});
+
+            expect(await container.tenantDb.get(1)).toEqual({ tenantId: 1 });
+            expect(await container.tenantDb.get('1')).toEqual({ tenantId: '1' });
+            expect(graph().edges).toEqual([
+                { from: 'tenantDb', to: "tenantDb('1')" },
+                { from: 'tenantDb', to: 'tenantDb(1)' },
+            ]);
+
+            await container.tenantDb.evict(1);
+            expect(called).toEqual(['create number 1', 'create string 1', 'finalize number 1']);
+        });
+    });
+
+    describe('providerOf', () => {
+        class Bus {
+            public constructor(public readonly handlers: Handler[]) {}
+        }
+        class Handler {
+            public constructor(public readonly bus: Provider<Bus>) {}
+        }
+
+        it('builds mutually referencing values', async () => {
+            const called: string[] = [];
+            const design = Design.bind(
+                'bus',
+                async (injector: Injector<{ handlers: Handler[] }>) => new Bus(await injector.handlers),
+                async () => {
+                    called.push('bus');
+                },
+            ).bind(
+                'handlers',
+                async (injector: Injector<{ bus: Bus }>) => [new Handler(providerOf(injector).bus)],
+                async () => {
+                    called.push('handlers');
+                },
+            );
+
+            const { container, finalize, graph } = await design.resolve({});
+            expect(await container.handlers[0].bus()).toBe(container.bus);
+            expect(graph().edges).toEqual([{ from: 'bus', to: 'handlers' }]);
+
+            await finalize();
+            expect(called).toEqual(['bus', 'handlers']);
+            await expect(container.handlers[0].bus()).rejects.toThrow('already finalized');
+        });
+
+        it('rejects with the cycle when called while building', async () => {
+            const design = Design.bind(
+                'bus',
+                async (injector: Injector<{ handlers: Handler[] }>) => new Bus(await injector.handlers),
+            ).bind('handlers', async (injector: Injector<{ bus: Bus }>) => {
+                const bus = providerOf(injector).bus;
+                await bus();
+                return [new Handler(bus)];
+            });
+
+            const error = await design.resolve({}).catch(e => e);
+            expect(error.cause).toBeInstanceOf(CyclicDependencyError);
+            expect(error.cause.cycle).toEqual(['handlers', 'bus', 'handlers']);
+        });
+    });
+
+    describe('decorate', () => {
+        it('wraps the value in the order of calls', async () => {
+            const { container } = await Design.bind('key1', resolveKey1)
+                .bind('key2', resolveKey2)
+                .decorate('key1', value => value + 1)
+                .decorate('key1', value => `decorated ${value}`)
+                .resolve({});
+            expect(container).toEqual({ key1: 'decorated 124', key2: 'key1 is decorated 124' });
+        });
+
+        it('injects dependencies of the decorator', async () => {
+            const { container, graph } = await Design.bind('key1', resolveKey1)
+                .decorate(
+                    'key1',
+                    async (value, injector: Injector<{ prefix: string }>) => `${await injector.prefix}${value}`,
+                )
+                .resolve({ prefix: '#' });
+            expect(container.key1).toBe('#123');
+            expect(graph().edges).toEqual([{ from: 'key1', to: 'prefix' }]);
+        });
+
+        it('finalizes the value before decoration', async () => {
+            const finalized: unknown[] = [];
+            const { finalize } = await Design.bind('key1', resolveKey1, async value => {
+                finalized.push(value);
+            })
+                .decorate('key1', value => ({ value }))
+                .resolve({});
+            await finalize();
+            expect(finalized).toEqual([123]);
+        });
+
+        it('finalizes the value when the decorator fails', async () => {
+            const finalized: unknown[] = [];
+            const error = await Design.bind('key1', resolveKey1, async value => {
+                finalized.push(value);
+            })
+                .decorate('key1', () => {
+                    throw new Error('decorator fails');
+                })
+                .resolve({})
+                .catch(e => e);
+            expect(error.message).toBe('failed to resolve "key1" because: decorator fails');
+            expect(finalized).toEqual([123]);
+        });
+
+        it('survives merge', async () => {
+            const decorated = Design.bind('key1', resolveKey1).decorate('key1', value => value * 2);
+            const { container } = await Design.bind('key2', resolveKey2).merge(decorated).resolve({});
+            expect(container.key2).toBe('key1 is 246');
+        });
+
+        it('rejects families and contributions', () => {
+            const design = Design.bindFamily('family', (param: string) => param).contribute('items', () => 1);
+            // @ts-expect-error Families cannot be decorated
+            expect(() => design.decorate('family', value => value)).toThrow(
+                '"family" cannot be decorated since it is bound by bindFamily or contribute',
+            );
+            // @ts-expect-error Contributions cannot be decorated
+            expect(() => design.decorate('items', value => value)).toThrow(
+                '"items" cannot be decorated since it is bound by bindFamily or contribute',
+            );
+        });
+    });
+
+    describe('intercept', () => {
+        it('decorates every matching value', async () => {
+            const intercepted: string[] = [];
+            const { container } = await Design.bind('key1', resolveKey1)
+                .bind('key2', resolveKey2)
+                .bind('other', () => 'other')
+                .intercept(
+                    key => key.startsWith('key'),
+                    (value, key) => {
+                        intercepted.push(key);
+                        return value;
+                    },
+                )
+                .resolve({});
+            expect(container).toEqual({ key1: 123, key2: 'key1 is 123', other: 'other' });
+            expect(intercepted).toEqual(['key1', 'key2']);
+        });
+
+        it('skips families and contributions', async () => {
+            const intercepted: string[] = [];
+            const { container } = await Design.bindFamily('family', (param: string) => param)
+                .contribute('items', () => 1)
+                .bind('key1', resolveKey1)
+                .intercept(
+                    () => true,
+                    (value, key) => {
+                        intercepted.push(key);
+                        return value;
+                    },
+                )
+                .merge(Design.contribute('items', () => 2))
+                .resolve({});
+            expect(await container.family.get('a')).toBe('a');
+            expect(container.items).toEqual([1, 2]);
+            expect(intercepted).toEqual(['key1']);
+        });
+    });
+
+    describe('module', () => {
+        const users = Design.module(
+            Design.bind(
+                'helper',
+                async (injector: Injector<{ prefix: string }>) => `${await injector.prefix}user`,
+            ).bind('users', async injector => [await injector.helper]),
+            { exports: ['users'] },
+        );
+        const items = Design.module(
+            Design.bind('helper', () => 1).bind('items', async injector => [await injector.helper]),
+            { exports: ['items'] },
+        );
+
+        it('hides keys which are not exported', async () => {
+            const { container } = await users.resolve({ prefix: '#' });
+            expect(container).toEqual({ users: ['#user'], prefix: '#' });
+        });
+
+        it('resolves private keys of each module without collisions', async () => {
+            const { container } = await users
+                .merge(items)
+                .bind('helper', () => 'public')
+                .resolve({ prefix: '#' });
+            expect(container).toEqual({ users: ['#user'], items: [1], helper: 'public', prefix: '#' });
+        });
+
+        it('resolves private keys of nested modules', async () => {
+            const nested = Design.module(
+                items
+                    .bind('helper', () => 'outer')
+                    .bind('both', async injector => [await injector.helper, await injector.items]),
+                { exports: ['both'] },
+            );
+            const { container } = await nested.resolve({});
+            expect(container).toEqual({ both: ['outer', [1]] });
+        });
+
+        it('resolves contributions of the module by its private keys after merge', async () => {
+            const api = Design.module(
+                Design.bind('prefix', () => '/api').contribute(
+                    'routes',
+                    async injector => `${await injector.prefix}/users`,
+                ),
+                { exports: ['routes'] },
+            );
+            const { container } = await api
+                .contribute('routes', () => '/health')
+                .merge(
+                    Design.bind('prefix', () => '/public').contribute(
+                        'routes',
+                        async injector => `${await injector.prefix}`,
+                    ),
+                )
+                .resolve({});
+            expect(container.routes).toEqual(['/api/users', '/health', '/public']);
+        });
+
+        it('names private keys by the module', async () => {
+            const { graph } = await users.resolve({ prefix: '#' });
+            expect(graph().edges).toEqual([
+                { from: 'users', to: 'users.helper' },
+                { from: 'users.helper', to: 'prefix' },
+            ]);
+        });
+
+        it('renames private keys of modules with the same name on merge', async () => {
+            const named = <V>(value: V) =>
+                Design.module(
+                    Design.bind('helper', () => value).bind(`${value}`, async injector => injector.helper),
+                    { exports: [`${value}`], name: 'lib' },
+                );
+            const { container, graph } = await named('a').merge(named('b'), { onConflict: 'error' }).resolve({});
+            expect(container).toEqual({ a: 'a', b: 'b' });
+            expect(graph().edges).toEqual([
+                { from: 'a', to: 'lib.helper' },
+                { from: 'b', to: 'lib.helper#2' },
+            ]);
+        });
+
+        it('is depended on by keys outside of the module', async () => {
+            const { container } = await users
+                .bind('count', async (injector: Injector<{ users: string[] }>) => (await injector.users).length)
+                .resolve({ prefix: '#' });
+            expect(container.count).toBe(1);
+        });
+    });
+
+    describe('bindWhen', () => {
+        const isTest = async (injector: Injector<{ profile: string }>) => (await injector.profile) === 'test';
+
+        it('binds the value only when the predicate holds', async () => {
+            const finalized: string[] = [];
+            const design = Design.bind(
+                'mailer',
+                () => 'smtp',
+                async mailer => {
+                    finalized.push(mailer);
+                },
+            ).bindWhen(
+                isTest,
+                'mailer',
+                () => 'fake',
+                async mailer => {
+                    finalized.push(mailer);
+                },
+            );
+
+            const test = await design.resolve({ profile: 'test' });
+            const prod = await design.resolve({ profile: 'prod' });
+            expect(test.container.mailer).toBe('fake');
+            expect(prod.container.mailer).toBe('smtp');
+
+            await test.finalize();
+            await prod.finalize();
+            expect(finalized).toEqual(['fake', 'smtp']);
+        });
+
+        it('records the selected binding in the graph without resolving the others', async () => {
+            const resolveFake = jest.fn(() => 'fake');
+            const design = Design.bind('mailer', () => 'smtp')
+                .bindWhen(isTest, 'mailer', resolveFake)
+                .bindWhen(
+                    async (injector: Injector<{ profile: string }>) => (await injector.profile) === 'local',
+                    'mailer',
+                    () => 'local',
+                );
+
+            const { container, graph } = await design.resolve({ profile: 'local' });
+
+            expect(container).toEqual({ mailer: 'local', profile: 'local' });
+            expect(resolveFake).not.toHaveBeenCalled();
+            expect(graph().edges).toEqual(
+                expect.arrayContaining([
+                    { from: 'mailer', to: 'profile' },
+                    { from: 'mailer', to: 'mailer@when2' },
+                ]),
+            );
+        });
+
+        it('fails when no predicate holds without any binding so far', async () => {
+            const design = Design.bindWhen(isTest, 'mailer', () => 'fake');
+            await expect(design.resolve({ profile: 'prod' })).rejects.toThrow(
+                'failed to resolve "mailer" because: no binding matches the conditions',
+            );
+        });
+
+        it('keeps the binding so far transient', async () => {
+            let count = 0;
+            const { container } = await Design.bindTransient('id', () => ++count)
+                .bindWhen(isTest, 'id', () => 0)
+                .bind('ids', async injector => [await injector.id, await injector.id])
+                .resolve({ profile: 'prod' });
+            expect(container.ids).toEqual([2, 3]);
+        });
+
+        it('keeps the binding so far replaceable by bindDefault', async () => {
+            const design = Design.bindDefault('mailer', () => 'smtp').bindWhen(isTest, 'mailer', () => 'fake');
+            const { container } = await Design.bind('mailer', () => 'ses')
+                .merge(design, { onConflict: 'error' })
+                .resolve({ profile: 'test' });
+            expect(container.mailer).toBe('ses');
+        });
+
+        it('does not collide with bindings of another design on merge', async () => {
+            const isLocal = async (injector: Injector<{ profile: string }>) => (await injector.profile) === 'local';
+            const design = Design.bindDefault('mailer', () => 'smtp').bindWhen(isTest, 'mailer', () => 'fake');
+            const { container } = await Design.bind('mailer', () => 'ses')
+                .bindWhen(isLocal, 'mailer', () => 'local')
+                .merge(design, { onConflict: 'error' })
+                .resolve({ profile: 'local' });
+            expect(container.mailer).toBe('local');
+        });
+
+        it('rejects families and contributions', () => {
+            const design = Design.bindFamily('family', (param: string) => param).contribute('items', () => 1);
+            // @ts-expect-error Families cannot be bound conditionally
+            expect(() => design.bindWhen(isTest, 'family', () => 1)).toThrow(
+                '"family" cannot be bound conditionally since it is bound by bindFamily or contribute',
+            );
+            // @ts-expect-error Contributions cannot be bound conditionally
+            expect(() => design.bindWhen(isTest, 'items', () => [1])).toThrow(
+                '"items" cannot be bound conditionally since it is bound by bindFamily or contribute',
+            );
+        });
+    });
+
+    describe('select', () => {
+        const prod = Design.bind(
+            'smtp',
+            async (injector: Injector<{ host: string }>) => `smtp://${await injector.host}`,
+        )
+            .bind('mailer', async injector => ({ url: await injector.smtp }))
+            .bind('tracker', () => 'tracker');
+        const test = Design.bind('mailer', () => ({ sent: [] as string[] })).bind('tracker', () => 'noop');
+        const selected = Design.select('profile', { prod, test });
+
+        it('resolves keys of the selected branch', async () => {
+            const { container } = await selected.resolve({ profile: 'prod', host: 'localhost' });
+            expect(container).toEqual({
+                mailer: { url: 'smtp://localhost' },
+                tracker: 'tracker',
+                profile: 'prod',
+                host: 'localhost',
+            });
+        });
+
+        it('records the selected branch in the graph without resolving the others', async () => {
+            const { graph } = await selected.resolve({ profile: 'test', host: 'localhost' });
+            expect(graph().nodes).not.toContain('mailer@profile=prod');
+            expect(graph().edges).toEqual(
+                expect.arrayContaining([
+                    { from: 'mailer', to: 'profile' },
+                    { from: 'mailer', to: 'mailer@profile=test' },
+                ]),
+            );
+        });
+
+        it('fails when the key selects no branch', async () => {
+            await expect(
+                Design.select('profile', { prod, test }).resolve({ profile: 'staging' as 'prod', host: 'localhost' }),
+            ).rejects.toThrow('no branch is selected by "profile": staging');
+        });
+
+        it('is selected by a bound key', async () => {
+            const { container } = await Design.bind('profile', () => 'test' as const)
+                .merge(selected)
+                .resolve({ host: 'localhost' });
+            expect(container.mailer).toEqual({ sent: [] });
+        });
+    });
+
+    describe('override', () => {
+        it('replaces the existing binding', async () => {
+            const design = Design.bind('key1', resolveKey1)
+                .bind('key2', resolveKey2)
+                .override('key1', () => 456);
+            const { container } = await design.resolve({});
+            expect(container).toEqual({ key1: 456, key2: 'key1 is 456' });
+        });
+
+        // @ts-expect-error Should not allow overriding with a value of another type
+        Design.bind('key1', resolveKey1).override('key1', () => 'string');
+    });
+
+    describe('merge', () => {
+        const left = Design.bind('key1', resolveKey1).bind('left', () => 'left');
+        const right = Design.bind('key1', () => 456).bind('right', () => 'right');
+
+        it('overrides colliding keys by default', async () => {
+            const { container } = await left.merge(right).resolve({});
+            expect(container).toEqual({ key1: 456, left: 'left', right: 'right' });
+        });
+
+        it('keeps colliding keys of the left design with keepLeft', async () => {
+            const { container } = await left.merge(right, { onConflict: 'keepLeft' }).resolve({});
+            expect(container).toEqual({ key1: 123, left: 'left', right: 'right' });
+        });
+
+        it('throws an error naming colliding keys with error', () => {
+            expect(() => left.merge(right, { onConflict: 'error' })).toThrow('conflicting keys detected: key1');
+            expect(() =>
+                left.merge(
+                    Design.bind('other', () => 1),
+                    { onConflict: 'error' },
+                ),
+            ).not.toThrow();
+        });
+
+        // @ts-expect-error Should not allow merging conflicting value types
+        left.merge(Design.bind('key1', () => 'string'));
+    });
+
+    describe('contribute', () => {
+        it('collects contributions across merge', async () => {
+            const finalized: string[] = [];
+            const design1 = Design.bind('key1', resolveKey1)
+                .contribute('routes', async (injector: Injector<HasKey1>) => `/key1/${await injector.key1}`)
+                .contribute('routes', () => '/health');
+            const design2 = Design.contribute('routes', resolveKey2, async item => {
+                finalized.push(item);
+            });
+
+            const { container, finalize } = await design1.merge(design2).resolve({});
+            expect(container.routes).toEqual(['/key1/123', '/health', 'key1 is 123']);
+
+            await finalize();
+            expect(finalized).toEqual(['key1 is 123']);
+        });
+
+        it('finalizes resolved contributions when another contribution fails', async () => {
+            const finalized: string[] = [];
+            const design = Design.contribute(
+                'items',
+                () => 'item',
+                async item => {
+                    finalized.push(item);
+                },
+            ).contribute('items', async () => {
+                throw new Error('fails');
+            });
+
+            await expect(design.resolve({})).rejects.toThrow('failed to resolve "items" because: fails');
+            expect(finalized).toEqual(['item']);
+        });
+    });
+
     describe('resolve', () => {
         describe('with valid dependencies', () => {
             it('resolves design', async () => {
@@ -171,6 +881,142 @@ describe('Design', () => {
             expect(called).toEqual(['key3', 'key2', 'key1']);
         });
 
+        it('finalizes already built resources when resolution fails', async () => {
+            const called: string[] = [];
+            const design = Design.bind('key1', resolveKey1, async () => {
+                called.push('key1');
+            })
+                .bind('key2', resolveKey2, async () => {
+                    called.push('key2');
+                })
+                .bind('failing', async (injector: Injector<HasKey2>) => {
+                    await injector.key2;
+                    throw new Error('fails');
+                })
+                .bind(
+                    'unrelated',
+                    () => 'unrelated',
+                    async () => {
+                        called.push('unrelated');
+                    },
+                );
+
+            await expect(design.resolve({})).rejects.toThrow('failed to resolve "failing" because: fails');
+            expect(called).toHaveLength(3);
+            expect(called.indexOf('key2')).toBeLessThan(called.indexOf('key1'));
+        });
+
+        it('rejects without waiting for the other bindings', async () => {
+            const called: string[] = [];
+            const design = Design.bind('failing', async () => {
+                throw new Error('fails');
+            }).bind(
+                'slow',
+                async () => {
+                    await new Promise(resolve => setTimeout(resolve, 200));
+                    return 'slow';
+                },
+                async () => {
+                    called.push('slow');
+                },
+            );
+
+            const start = Date.now();
+            await expect(design.resolve({})).rejects.toThrow('failed to resolve "failing" because: fails');
+            expect(Date.now() - start).toBeLessThan(100);
+            expect(called).toEqual([]);
+
+            await new Promise(resolve => setTimeout(resolve, 250));
+            expect(called).toEqual(['slow']);
+        });
+
+        it('attaches finalizer errors to the resolution error', async () => {
+            const finalizationError = new Error('cannot finalize');
+            const design = Design.bind('key1', resolveKey1, async () => {
+                throw finalizationError;
+            }).bind('failing', async (injector: Injector<HasKey1>) => {
+                await injector.key1;
+                throw new Error('fails');
+            });
+
+            const error = await design.resolve({}).catch(e => e);
+            expect(error).toBeInstanceOf(ResolutionError);
+            expect(error.message).toEqual('failed to resolve "failing" because: fails');
+            expect(error.finalizationError).toBeInstanceOf(FinalizationError);
+            expect(error.finalizationError.failures).toEqual([{ key: 'key1', error: finalizationError }]);
+        });
+
+        it('rejects with the chain of keys to the failing key', async () => {
+            const cause = new Error('fails');
+            const design = Design.bind('failing', async () => {
+                throw cause;
+            })
+                .bind('key1', async (injector: Injector<{ failing: number }>) => injector.failing)
+                .bind('key2', resolveKey2);
+
+            const error = await design.resolveOnly(['key2'], {}).catch(e => e);
+            expect(error).toBeInstanceOf(ResolutionError);
+            expect(error).toMatchObject({ key: 'failing', path: ['key2', 'key1', 'failing'], cause });
+        });
+
+        it('rejects with the cycle of keys', async () => {
+            const design = Design.bind('key1', (r: Injector<{ key2: number }>) => r.key2).bind(
+                'key2',
+                (r: Injector<HasKey1>) => r.key1,
+            );
+
+            const error = await design.resolve({}).catch(e => e);
+            expect(error.cause).toBeInstanceOf(CyclicDependencyError);
+            expect(error.cause.cycle).toEqual(['key2', 'key1', 'key2']);
+        });
+
+        it('rejects with failures of finalizers', async () => {
+            const { finalize } = await Design.bind('key1', resolveKey1, async () => {
+                throw new Error('fails');
+            }).resolve({});
+
+            const error = await finalize().catch(e => e);
+            expect(error).toBeInstanceOf(FinalizationError);
+            expect(error.message).toEqual('failed to finalize "key1" because: fails');
+        });
+
+        it('finalizes each key as soon as its dependents are finalized', async () => {
+            const called: string[] = [];
+            const finalizer =
+                (key: string, ms = 0) =>
+                async () => {
+                    await new Promise(resolve => setTimeout(resolve, ms));
+                    called.push(key);
+                };
+            const design = Design.bind('key1', resolveKey1, finalizer('key1'))
+                .bind('key2', resolveKey2, finalizer('key2', 20))
+                .bind('other1', () => 1, finalizer('other1'))
+                .bind('other2', async (injector: Injector<{ other1: number }>) => injector.other1, finalizer('other2'));
+            const { finalize } = await design.resolve({});
+            await finalize();
+
+            expect(called).toEqual(['other2', 'other1', 'key2', 'key1']);
+        });
+
+        it('attempts every finalizer and aggregates failures', async () => {
+            const called: string[] = [];
+            const failing = (key: string) => async () => {
+                called.push(key);
+                throw new Error(`${key} fails`);
+            };
+            const design = Design.bind('key1', resolveKey1, failing('key1'))
+                .bind('key2', resolveKey2, failing('key2'))
+                .bind('key3', resolveKey3, async () => {
+                    called.push('key3');
+                });
+            const { finalize } = await design.resolve({});
+
+            const error = await finalize().catch(e => e);
+            expect(called).toEqual(['key3', 'key2', 'key1']);
+            expect(error).toBeInstanceOf(FinalizationError);
+            expect(error.message).toEqual('failed to finalize "key2" because: key2 fails, "key1" because: key1 fails');
+        });
+
         it('cannot call finalize twice', async () => {
             const { finalize } = await Design.empty.resolve({});
             await finalize();
@@ -182,6 +1028,24 @@ describe('Design', () => {
             );
         });
 
+        it('finalizes when disposed', async () => {
+            const called: string[] = [];
+            const design = Design.bind('key1', resolveKey1, async () => {
+                called.push('key1');
+            }).bind('key2', resolveKey2, async () => {
+                called.push('key2');
+            });
+            const result = await design.resolve({});
+            await result[Symbol.asyncDispose]();
+            expect(called).toEqual(['key2', 'key1']);
+        });
+
+        it('does nothing when disposed after finalize', async () => {
+            const result = await Design.empty.resolve({});
+            await result.finalize();
+            await result[Symbol.asyncDispose]();
+        });
+
         it('can use own error handler', async () => {
             const { finalize } = await Design.bind(
                 'key1',
@@ -200,6 +1064,301 @@ describe('Design', () => {
         });
     });
 
+    describe('resolveLazy', () => {
+        it('builds values on their first access', async () => {
+            const resolved: string[] = [];
+            const design = Design.bind('key1', async () => {
+                resolved.push('key1');
+                return 123;
+            })
+                .bind('key2', async (injector: Injector<HasKey1>) => {
+                    resolved.push('key2');
+                    return resolveKey2(injector);
+                })
+                .bind('unused', async () => {
+                    resolved.push('unused');
+                    return 'unused';
+                });
+
+            const { container } = design.resolveLazy({});
+            expect(resolved).toEqual([]);
+
+            expect(await container.key2).toBe('key1 is 123');
+            expect(await container.key2).toBe('key1 is 123');
+            expect(await container.key1).toBe(123);
+            expect(resolved).toEqual(['key2', 'key1']);
+        });
+
+        it('finalizes built values only according to the dependent order', async () => {
+            const called: string[] = [];
+            const design = Design.bind('key1', resolveKey1, async () => {
+                called.push('key1');
+            })
+                .bind('key2', resolveKey2, async () => {
+                    called.push('key2');
+                })
+                .bind('key3', resolveKey3, async () => {
+                    called.push('key3');
+                });
+
+            const { container, finalize } = design.resolveLazy({});
+            await container.key2;
+            await finalize();
+
+            expect(called).toEqual(['key2', 'key1']);
+            await expect(container.key3).rejects.toThrow('already finalized');
+        });
+
+        it('finalizes built values when disposed', async () => {
+            const called: string[] = [];
+            const design = Design.bind('key1', resolveKey1, async () => {
+                called.push('key1');
+            });
+            const result = design.resolveLazy({});
+            await result.container.key1;
+            await result[Symbol.asyncDispose]();
+            expect(called).toEqual(['key1']);
+        });
+    });
+
+    describe('resolveOnly', () => {
+        it('resolves given keys and their dependencies only', async () => {
+            const resolved: string[] = [];
+            const design = Design.bind('key1', async () => {
+                resolved.push('key1');
+                return 123;
+            })
+                .bind('key2', async (injector: Injector<HasKey1>) => {
+                    resolved.push('key2');
+                    return resolveKey2(injector);
+                })
+                .bind('unused', async (injector: Injector<{ unusedConfig: string }>) => {
+                    resolved.push('unused');
+                    return injector.unusedConfig;
+                });
+
+            const { container } = await design.resolveOnly(['key2'], {});
+            expect(container).toEqual({ key1: 123, key2: 'key1 is 123' });
+            expect(resolved).toEqual(['key2', 'key1']);
+        });
+
+        it('requires what implicitly typed injectors may depend on', async () => {
+            const design = Design.bind(
+                'cfgUser',
+                async (injector: Injector<{ cfg: string }>) => `cfg=${await injector.cfg}`,
+            )
+                .bind('top', async injector => injector.cfgUser)
+                .bind('independent', () => 'independent');
+
+            // @ts-expect-error `top` may depend on `cfgUser`, which requires `cfg`
+            design.resolveOnly(['top'], {}).catch(() => undefined);
+            const { container } = await design.resolveOnly(['top'], { cfg: 'x' });
+            expect(container.top).toBe('cfg=x');
+            expect((await design.resolveOnly(['independent'], {})).container).toEqual({ independent: 'independent' });
+        });
+    });
+
+    describe('createScope', () => {
+        it('resolves scoped bindings against the parent container', async () => {
+            let counter = 0;
+            const parent = await Design.bind('key1', () => {
+                counter += 1;
+                return 123;
+            }).resolve({});
+            const scopeDesign = Design.bind('key2', resolveKey2).bind(
+                'requestId',
+                async (injector: Injector<{ request: string }>) => `id of ${await injector.request}`,
+            );
+
+            const { container: scope1 } = await parent.createScope(scopeDesign, { request: 'request1' });
+            const { container: scope2 } = await parent.createScope(scopeDesign, { request: 'request2' });
+
+            expect(scope1).toEqual({
+                key1: 123,
+                key2: 'key1 is 123',
+                request: 'request1',
+                requestId: 'id of request1',
+            });
+            expect(scope2.requestId).toBe('id of request2');
+            expect(counter).toBe(1);
+        });
+
+        it('finalizes values owned by the scope only', async () => {
+            const called: string[] = [];
+            const parent = await Design.bind('key1', resolveKey1, async () => {
+                called.push('key1');
+            }).resolve({});
+            const scope = await parent.createScope(
+                Design.bind('key2', resolveKey2, async () => {
+                    called.push('key2');
+                }),
+                {},
+            );
+
+            await scope.finalize();
+            expect(called).toEqual(['key2']);
+
+            await parent.finalize();
+            expect(called).toEqual(['key2', 'key1']);
+            await expect(parent.createScope(Design.empty, {})).rejects.toThrow('already finalized');
+        });
+    });
+
+    describe('timeout', () => {
+        const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+        it('rejects when a binding times out and aborts its signal', async () => {
+            const called: string[] = [];
+            let signal: AbortSignal | undefined;
+            const design = Design.bind('key1', resolveKey1, async () => {
+                called.push('key1');
+            })
+                .bind(
+                    'hanging',
+                    async (injector: Injector<HasKey1>) => {
+                        await injector.key1;
+                        signal = signalOf(injector);
+                        return new Promise<number>(() => undefined);
+                    },
+                    undefined,
+                    { timeout: 10 },
+                )
+                .bind('dependent', async (injector: Injector<{ hanging: number }>) => injector.hanging);
+
+            const error = await design.resolveOnly(['dependent'], {}).catch(e => e);
+            expect(error).toBeInstanceOf(ResolutionError);
+            expect(error).toMatchObject({ key: 'hanging', path: ['dependent', 'hanging'] });
+            expect(error.cause).toBeInstanceOf(TimeoutError);
+            expect(signal?.aborted).toBe(true);
+            expect(called).toEqual(['key1']);
+        });
+
+        it('finalizes values built after the timeout', async () => {
+            const finalized: string[] = [];
+            const design = Design.bind(
+                'slow',
+                async () => {
+                    await sleep(20);
+                    return 'slow';
+                },
+                async item => {
+                    finalized.push(item);
+                },
+                { timeout: 10 },
+            );
+
+            await expect(design.resolve({})).rejects.toThrow('failed to resolve "slow" because: timed out after 10ms');
+            await sleep(20);
+            expect(finalized).toEqual(['slow']);
+        });
+
+        it('rejects when the whole resolution times out', async () => {
+            const design = Design.bind('hanging', () => new Promise<number>(() => undefined)).bind(
+                'dependent',
+                async (injector: Injector<{ hanging: number }>) => injector.hanging,
+            );
+
+            const error = await design.resolve({}, { timeout: 10 }).catch(e => e);
+            expect(error).toMatchObject({ key: 'hanging', path: ['hanging'] });
+            expect(error.cause).toBeInstanceOf(TimeoutError);
+        });
+
+        it('rejects when the finalization times out', async () => {
+            const { finalize } = await Design.bind(
+                'key1',
+                resolveKey1,
+                () => new Promise<void>(() => undefined),
+            ).resolve({}, { finalizeTimeout: 10 });
+
+            const error = await finalize().catch(e => e);
+            expect(error).toBeInstanceOf(FinalizationError);
+            expect(error.failures).toEqual([{ key: 'key1', error: new TimeoutError(10) }]);
+        });
+    });
+
+    describe('retry', () => {
+        it('retries a failing factory while dependents share the result', async () => {
+            let attempts = 0;
+            const failed: string[] = [];
+            const design = Design.bind(
+                'flaky',
+                async () => {
+                    attempts += 1;
+                    if (attempts < 3) {
+                        throw new Error(`attempt ${attempts} fails`);
+                    }
+                    return attempts;
+                },
+                undefined,
+                {
+                    retry: {
+                        attempts: 3,
+                        delay: 1,
+                        onFailedAttempt: ({ key, attempt, error }) =>
+                            failed.push(`${key} ${attempt}: ${(error as Error).message}`),
+                    },
+                },
+            )
+                .bind('dependent1', async (injector: Injector<{ flaky: number }>) => injector.flaky)
+                .bind('dependent2', async (injector: Injector<{ flaky: number }>) => injector.flaky);
+
+            const { container } = await design.resolve({});
+            expect(container).toEqual({ flaky: 3, dependent1: 3, dependent2: 3 });
+            expect(failed).toEqual(['flaky 1: attempt 1 fails', 'flaky 2: attempt 2 fails']);
+        });
+
+        it('does not retry errors which are not retryable', async () => {
+            let attempts = 0;
+            const design = Design.bindResource(
+                'resource',
+                async (): Promise<{ finalize(): Promise<void> }> => {
+                    attempts += 1;
+                    throw new Error('fatal');
+                },
+                { retry: { attempts: 3, delay: 1, retryable: e => (e as Error).message !== 'fatal' } },
+            );
+
+            await expect(design.resolve({})).rejects.toThrow('failed to resolve "resource" because: fatal');
+            expect(attempts).toBe(1);
+        });
+
+        it('stops retrying once the binding times out', async () => {
+            let attempts = 0;
+            const design = Design.bind(
+                'connection',
+                async () => {
+                    attempts += 1;
+                    throw new Error('refused');
+                },
+                undefined,
+                { timeout: 20, retry: { attempts: 5, delay: 30, jitter: 0 } },
+            );
+
+            await expect(design.resolve({})).rejects.toThrow(
+                'failed to resolve "connection" because: timed out after 20ms',
+            );
+            await new Promise(resolve => setTimeout(resolve, 100));
+            expect(attempts).toBe(1);
+        });
+    });
+
+    describe('graph', () => {
+        it('returns dependencies recorded while resolving', async () => {
+            const { graph } = await Design.bind('key1', resolveKey1)
+                .bind('key2', resolveKey2)
+                .bind('key3', resolveKey3)
+                .resolve({});
+            expect(graph()).toEqual({
+                nodes: ['key1', 'key2', 'key3'],
+                edges: [
+                    { from: 'key2', to: 'key1' },
+                    { from: 'key3', to: 'key2' },
+                ],
+                levels: [['key3'], ['key2'], ['key1']],
+            });
+        });
+    });
+
     describe('with long dependencies', () => {
         const design = Design.bind('dep1', async () => 1)
             .bind('dep2', async injector => 1 + (await injector.dep1))
@@ -411,6 +1570,11 @@ describe('Design', () => {
             const { container } = await design.resolve({ base: 1000 });
             expect(container.result).toBe(1200);
         });
+
+        it('works with resolveOnly', async () => {
+            const { container } = await design.resolveOnly(['result'], { base: 1000 });
+            expect(container.result).toBe(1200);
+        });
     });
 
     describe('use', () => {
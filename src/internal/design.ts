@@ -1,8 +1,45 @@
-import { resolve } from './resolver';
+import { attachSignal, signalOf, withTimeout } from './cancellation';
+import { Environment, EnvSchema, EnvValue, readEnv } from './environment';
+import { EnvironmentError, TimeoutError } from './errors';
+import { DependencyGraph } from './graph';
+import { declareDependencies, dependenciesOf, optionalDependenciesOf } from './metadata';
+import { Observer } from './observer';
+import { attachProviders, providerOf } from './provider';
+import { ReportOptions, UsageReport } from './report';
+import { retry, RetryOptions } from './retry';
+import { resolve, resolveLazy } from './resolver';
+import { validate, ValidationReport } from './validation';
 
 export interface Resource<T, D extends NonNullable<unknown>> {
     resolve: Resolve<T, D>;
     finalize: (item: T) => Promise<void>;
+    // Resolves a new value for each access if true.
+    transient?: boolean;
+    // Resources whose values are collected into an array.
+    contributions?: Resource<any, D>[];
+    // Milliseconds to wait for `resolve`.
+    timeout?: number;
+    // How to retry `resolve` when it fails.
+    retry?: RetryOptions;
+    // Replaced by any other binding for the key.
+    fallback?: boolean;
+    // Resource of the member for each parameter. The resolver builds `Family` instead of calling `resolve`.
+    family?: (param: any) => Resource<any, D>;
+    // Keys to resolve for names which the injector has, such as private keys of a module.
+    // Contributions keep their own since collections merge contributions of different modules.
+    aliases?: { [name: string]: string };
+    // Excluded from the container.
+    hidden?: boolean;
+    // Keys which `resolve` takes from the injector, if declared.
+    dependencies?: string[];
+    // Keys among `dependencies` which `resolve` does without.
+    optionalDependencies?: string[];
+    // Given as a requirement rather than bound.
+    provided?: boolean;
+    // Taken over from the parent container of a scope.
+    inherited?: boolean;
+    // Resolved only when a condition selects it, rather than for the container.
+    conditional?: boolean;
 }
 
 export interface Definition {
@@ -14,48 +51,481 @@ export interface Definition {
     };
 }
 
+export type OptionalKeys<T> = { [K in keyof T]: T[K] extends Required<T>[K] ? never : K }[keyof T];
+
 export type Injector<T extends { [key: string]: any }> = { [P in keyof T]: Promise<T[P]> };
 
 export type Resolve<V, D extends NonNullable<unknown>> = (injector: Injector<D>) => Promise<V>;
 
+// Receives a promise to finalize each key.
 export type PromisesHandler = (ps: Promise<void>[]) => Promise<void>;
 
 type Resolvable<V, D extends NonNullable<unknown>> = (injector: Injector<D>) => V | Promise<V>;
+// Resolvable whose parameters A tell whether it takes the injector.
+type Factory<V, D extends NonNullable<unknown>, A> = (...args: A & ([] | [Injector<D>])) => V | Promise<V>;
+export type ValueOrResolvable<V, D extends NonNullable<unknown>> =
+    | Resolvable<V, D>
+    | (V extends (...args: any[]) => any ? never : V);
+
+export interface BindOptions {
+    // Milliseconds to wait for the value to be resolved, including retries.
+    timeout?: number;
+    retry?: RetryOptions;
+}
 
 const toResource = <V, D extends NonNullable<unknown>>(
     resolvable: Resolvable<V, D>,
     finalize: (instance: V) => Promise<void> = () => Promise.resolve(),
+    options: BindOptions = {},
 ): Resource<V, D> => ({
     resolve: async (injector: Injector<D>): Promise<V> => resolvable(injector),
     finalize,
+    dependencies: dependenciesOf(resolvable),
+    optionalDependencies: optionalDependenciesOf(resolvable),
+    ...options,
+});
+
+// Keys declared for every function, or undefined if any of them is not declared.
+const concatDependencies = (dependencies: (string[] | undefined)[]): string[] | undefined =>
+    dependencies.every((keys): keys is string[] => typeof keys !== 'undefined')
+        ? dependencies.reduce<string[]>((acc, keys) => [...acc, ...keys], [])
+        : undefined;
+
+const decorateResource = <V, W, D extends NonNullable<unknown>>(
+    resource: Resource<V, D>,
+    decorator: (value: V, injector: Injector<D>) => W | Promise<W>,
+    // Function whose dependencies are declared.
+    declared: object = decorator,
+): Resource<W, D> => {
+    // The finalizer takes values before decoration.
+    const originals = new Map<W, V[]>();
+    return {
+        ...resource,
+        resolve: async (injector: Injector<D>): Promise<W> => {
+            const value = await resource.resolve(injector);
+            let decorated: W;
+            try {
+                decorated = await decorator(value, injector);
+            } catch (e) {
+                await resource.finalize(value);
+                throw e;
+            }
+            originals.set(decorated, [...(originals.get(decorated) || []), value]);
+            return decorated;
+        },
+        finalize: async (decorated: W): Promise<void> => {
+            const [value, ...rest] = originals.get(decorated) || [];
+            if (rest.length > 0) {
+                originals.set(decorated, rest);
+            } else {
+                originals.delete(decorated);
+            }
+            await resource.finalize(value);
+        },
+        dependencies: concatDependencies([resource.dependencies, dependenciesOf(declared)]),
+        optionalDependencies: [...(resource.optionalDependencies || []), ...optionalDependenciesOf(declared)],
+    };
+};
+
+const isDecoratable = (resource: Resource<any, any>): boolean =>
+    typeof resource.family === 'undefined' && typeof resource.contributions === 'undefined';
+
+/**
+ * Value bound by `bindFamily`.
+ */
+export interface Family<P, V> {
+    // Resolves the member for the parameter, which is created once until it is evicted.
+    get: (param: P) => Promise<V>;
+    // Finalizes the member for the parameter if any, so that `get` creates a new one.
+    evict: (param: P) => Promise<void>;
+}
+
+const toFamily = <P, V, D extends NonNullable<unknown>>(
+    resolvable: (param: P, injector: Injector<D>) => V | Promise<V>,
+    finalize: (instance: V) => Promise<void> = () => Promise.resolve(),
+    options: BindOptions = {},
+): Resource<Family<P, V>, D> => ({
+    resolve: () => Promise.reject(new Error('family cannot be resolved directly')),
+    finalize: () => Promise.resolve(),
+    family: (param: P) => toResource((injector: Injector<D>) => resolvable(param, injector), finalize, options),
+});
+
+/**
+ * Resolves the key chosen by `choose`, or the fallback if nothing is chosen.
+ * Values of the chosen keys are finalized by their own bindings.
+ * The switch is transient or replaceable by other bindings as the fallback is.
+ */
+const toSwitch = <D extends NonNullable<unknown>>(
+    choose: (injector: Injector<D>) => Promise<string | undefined>,
+    // Keys which `choose` depends on, and keys which it may choose.
+    dependencies: string[] | undefined,
+    fallback?: Resource<any, D>,
+): Resource<any, D> => {
+    const fallbackValues: unknown[] = [];
+    return {
+        resolve: async (injector: Injector<D>): Promise<any> => {
+            const chosen = await choose(injector);
+            if (typeof chosen !== 'undefined') {
+                return (injector as { [key: string]: Promise<unknown> })[chosen];
+            }
+            if (typeof fallback === 'undefined') {
+                throw new Error('no binding matches the conditions');
+            }
+            const value = await fallback.resolve(injector);
+            fallbackValues.push(value);
+            return value;
+        },
+        finalize: async (value: unknown): Promise<void> => {
+            const index = fallbackValues.indexOf(value);
+            if (typeof fallback !== 'undefined' && index >= 0) {
+                fallbackValues.splice(index, 1);
+                await fallback.finalize(value);
+            }
+        },
+        dependencies: concatDependencies([dependencies, typeof fallback === 'undefined' ? [] : fallback.dependencies]),
+        optionalDependencies: fallback?.optionalDependencies,
+        transient: fallback?.transient,
+        fallback: fallback?.fallback,
+        aliases: fallback?.aliases,
+        timeout: fallback?.timeout,
+        retry: fallback?.retry,
+    };
+};
+
+/**
+ * Value which `bindResource` can finalize.
+ * `finalize` takes precedence over `Symbol.asyncDispose`, which takes precedence over `Symbol.dispose`.
+ */
+export type Finalizable = { finalize(): Promise<void> } | AsyncDisposable | Disposable;
+
+const finalizeResource = async (resource: Finalizable): Promise<void> => {
+    if ('finalize' in resource) {
+        await resource.finalize();
+    } else if (Symbol.asyncDispose in resource) {
+        await resource[Symbol.asyncDispose]();
+    } else {
+        resource[Symbol.dispose]();
+    }
+};
+
+/**
+ * Returns the injector which resolves the names by the aliases, keeping its signal and providers.
+ */
+const aliasInjector = <D extends NonNullable<unknown>>(
+    injector: Injector<D>,
+    aliases: { [name: string]: string } | undefined,
+): Injector<D> => {
+    if (typeof aliases === 'undefined') {
+        return injector;
+    }
+    const aliased: Injector<D> = Object.create(injector);
+    const providers: { [name: string]: unknown } = Object.create(providerOf(injector));
+    for (const name in aliases) {
+        Object.defineProperty(aliased, name, { get: () => (injector as any)[aliases[name]] });
+        providers[name] = (providerOf(injector) as any)[aliases[name]];
+    }
+    attachSignal(aliased, signalOf(injector));
+    attachProviders(aliased, providers);
+    return aliased;
+};
+
+const toCollection = <D extends NonNullable<unknown>>(contributions: Resource<any, D>[]): Resource<any[], D> => ({
+    resolve: async (injector: Injector<D>): Promise<any[]> => {
+        const results = await Promise.allSettled(
+            contributions.map(contribution => contribution.resolve(aliasInjector(injector, contribution.aliases))),
+        );
+        const values = results.map(result => (result.status === 'fulfilled' ? result.value : undefined));
+        const rejected = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (typeof rejected !== 'undefined') {
+            // Finalize the other contributions since the collection as a whole is never finalized.
+            await Promise.all(
+                results.map((result, i) =>
+                    result.status === 'fulfilled' ? contributions[i].finalize(values[i]) : Promise.resolve(),
+                ),
+            );
+            throw rejected.reason;
+        }
+        return values;
+    },
+    finalize: async (items: any[]): Promise<void> => {
+        await Promise.all(items.map((item, i) => contributions[i].finalize(item)));
+    },
+    contributions,
+    dependencies: concatDependencies(
+        contributions.map(({ dependencies, aliases = {} }) => dependencies?.map(name => aliases[name] || name)),
+    ),
+    optionalDependencies: contributions.reduce<string[]>(
+        (acc, { optionalDependencies = [], aliases = {} }) => [
+            ...acc,
+            ...optionalDependencies.map(name => aliases[name] || name),
+        ],
+        [],
+    ),
 });
 
+/**
+ * Keys which a binding may take from its injector, including keys bound in the design which `dependencies` omits.
+ * They are kept as a map so that intersecting bindings collect all of them.
+ */
+type Reaches<K> = { reaches: { [P in K & PropertyKey]: true } };
+type ReachesOf<E> = E extends { reaches: infer R } ? { reaches: R } : NonNullable<unknown>;
+// An injector without dependencies may be typed implicitly, which can take any key of the design.
+type ImplicitKeys<T, D> = [keyof D] extends [never] ? keyof T : never;
+// Keys of the injector which a factory with parameters A takes, or nothing if it takes no injector.
+type InjectedKeys<A> = A extends [Injector<infer I>] ? keyof I : never;
+
+type Bound<K extends string, V, D, R> = { [key in K]: { dependencies: D; value: V } & Reaches<R> };
+
+type Contribution<T extends Definition, K> = K extends keyof T
+    ? T[K] extends { contribution: infer C }
+        ? { dependencies: T[K]['dependencies']; value: C }
+        : never
+    : never;
+type Contributed<T extends Definition, K extends string, V, D, A> = Omit<T, K> & {
+    [key in K]: {
+        dependencies: ([Contribution<T, K>] extends [never]
+            ? NonNullable<unknown>
+            : Contribution<T, K>['dependencies']) &
+            D;
+        value: (Contribution<T, K>['value'] | V)[];
+        contribution: Contribution<T, K>['value'] | V;
+    } & (K extends keyof T ? ReachesOf<T[K]> : NonNullable<unknown>) &
+        Reaches<InjectedKeys<A>>;
+};
+
+type Conditional<T extends Definition, K extends string, V, C, D> = Omit<T, K> & {
+    [key in K]: {
+        dependencies: (K extends keyof T ? T[K]['dependencies'] : NonNullable<unknown>) & C & D;
+        value: (K extends keyof T ? T[K]['value'] : never) | V;
+    } & (K extends keyof T ? ReachesOf<T[K]> : NonNullable<unknown>) &
+        Reaches<ImplicitKeys<T, C> | ImplicitKeys<T, D>>;
+};
+
+// Module exports keep contributions so that they are still collected across `merge`.
+type ContributionOf<E> = E extends { contribution: infer C } ? { contribution: C } : NonNullable<unknown>;
+// Keys which `decorate` and `bindWhen` can wrap. The resolver builds families by itself, and `merge` and `contribute`
+// collect the contributions again.
+type DecoratableKeys<T extends Definition> = {
+    [P in keyof T]: T[P] extends { contribution: unknown } ? never : T[P]['value'] extends Family<any, any> ? never : P;
+}[keyof T];
+
+type SharedContributionKeys<T extends Definition, U extends Definition> = {
+    [P in keyof T & keyof U]: [Contribution<T, P>, Contribution<U, P>] extends [never, never]
+        ? never
+        : [Contribution<T, P>] extends [never]
+        ? never
+        : [Contribution<U, P>] extends [never]
+        ? never
+        : P;
+}[keyof T & keyof U];
+type Merged<T extends Definition, U extends Definition> = [SharedContributionKeys<T, U>] extends [never]
+    ? T & U
+    : Omit<T, SharedContributionKeys<T, U>> &
+          Omit<U, SharedContributionKeys<T, U>> & {
+              [P in SharedContributionKeys<T, U>]: {
+                  dependencies: Contribution<T, P>['dependencies'] & Contribution<U, P>['dependencies'];
+                  value: (Contribution<T, P>['value'] | Contribution<U, P>['value'])[];
+                  contribution: Contribution<T, P>['value'] | Contribution<U, P>['value'];
+              } & ReachesOf<T[P]> &
+                  ReachesOf<U[P]>;
+          };
+
+type CollidingKeys<T extends Definition, U extends Definition> = Exclude<
+    keyof T & keyof U,
+    SharedContributionKeys<T, U>
+>;
+type ConflictingValueKeys<T extends Definition, U extends Definition> = {
+    [P in CollidingKeys<T, U>]: [T[P]['value']] extends [U[P]['value']]
+        ? [U[P]['value']] extends [T[P]['value']]
+            ? never
+            : P
+        : P;
+}[CollidingKeys<T, U>];
+
+export interface MergeOptions {
+    /**
+     * How to handle keys bound in both designs, except for contributions.
+     * - error: throws an error naming the colliding keys
+     * - override: the given design wins (default)
+     * - keepLeft: this design wins
+     */
+    onConflict?: 'error' | 'override' | 'keepLeft';
+}
+
+export interface ModuleOptions<K> {
+    // Keys visible from outside of the module.
+    exports: K[];
+    // Prefix of the private keys in the graph, i.g. `users.helper`. Defaults to the exported keys joined with `+`.
+    // Private keys of modules with the same name are renamed on `merge`, i.g. `users.helper#2`.
+    name?: string;
+}
+
+export interface ResolveOptions {
+    // Notified of the lifecycle of each binding.
+    observers?: Observer[];
+    // Milliseconds to wait for the whole resolution.
+    timeout?: number;
+    // Milliseconds to wait for the whole finalization by default.
+    finalizeTimeout?: number;
+}
+
+export interface FinalizeOptions {
+    // Milliseconds to wait for the whole finalization.
+    timeout?: number;
+}
+
 type ExactOneValue<T> = { [P in keyof T]: Exclude<T[keyof T], T[P]> extends never ? T[P] : never }[keyof T];
 type DependentValue<T extends Definition, K> = ExactOneValue<{
-    [P in keyof T]: K extends keyof T[P]['dependencies'] ? T[P]['dependencies'][K] : never;
+    [P in keyof T]: K extends keyof T[P]['dependencies'] ? Required<T[P]['dependencies']>[K] : never;
 }>;
 type BoundKeys<T extends Definition> = Extract<{ [P in keyof T]: keyof T[P]['dependencies'] }[keyof T], keyof T>;
 type MissingKeys<T extends Definition> = Exclude<{ [P in keyof T]: keyof T[P]['dependencies'] }[keyof T], keyof T>;
-type MissingDependencies<T extends Definition> = { [P in MissingKeys<T>]: DependentValue<T, P> };
+// Keys which some binding depends on without `?`.
+type RequiredKeys<T extends Definition> = {
+    [P in keyof T]: Exclude<keyof T[P]['dependencies'], OptionalKeys<T[P]['dependencies']>>;
+}[keyof T];
+type MissingDependencies<T extends Definition> = {
+    [P in Extract<MissingKeys<T>, RequiredKeys<T>>]: DependentValue<T, P>;
+} & {
+    [P in Exclude<MissingKeys<T>, RequiredKeys<T>>]?: DependentValue<T, P>;
+};
 
 type ConflictedKeys<T extends Definition> = {
     [P in BoundKeys<T>]: T[P]['value'] extends DependentValue<T, P> ? never : P;
 }[BoundKeys<T>];
 
-type Requirements<T extends Definition> = MissingDependencies<T> & {
+export type Requirements<T extends Definition> = MissingDependencies<T> & {
     // Prohibit from instantiation if required type conflicts.
     [P in ConflictedKeys<T>]: never;
 };
 
+type DependencyKeys<T extends Definition, K extends keyof T> = Extract<
+    { [P in K]: keyof T[P]['dependencies'] | (T[P] extends { reaches: infer R } ? keyof R : never) }[K],
+    keyof T
+>;
+type TransitiveKeys<T extends Definition, K extends keyof T, Visited extends keyof T = never> = [K] extends [never]
+    ? Visited
+    : TransitiveKeys<T, Exclude<DependencyKeys<T, K>, Visited | K>, Visited | K>;
+
+/**
+ * Subgraph of T which consists of K and what K transitively depends on.
+ * Bindings with implicitly typed injectors are taken to depend on every key.
+ */
+type Picked<T extends Definition, K extends keyof T> = { [P in TransitiveKeys<T, K> & keyof T]: T[P] };
+
+/**
+ * Values which a scope takes over from its parent container.
+ */
+export type Inherited<T extends Definition> = {
+    [P in keyof T]: { dependencies: NonNullable<unknown>; value: T[P]['value'] };
+};
+
 export interface Result<T extends Definition> {
     container: Container<T>;
-    finalize: (promisesHandler?: PromisesHandler) => Promise<void>;
+    finalize: (promisesHandler?: PromisesHandler, options?: FinalizeOptions) => Promise<void>;
+    /**
+     * Resolves a child container whose bindings can depend on values of this container.
+     * Finalizing the child container never finalizes values owned by this container.
+     */
+    createScope: <U extends Definition>(
+        design: Design<U>,
+        requirements: Requirements<Inherited<T> & U>,
+    ) => Promise<Result<Inherited<T> & U>>;
+    // Returns dependencies recorded while resolving.
+    graph: () => DependencyGraph;
+    // Returns bindings and requirements which nothing has used so far, and the slowest factories.
+    report: (options?: ReportOptions) => UsageReport;
+    // Finalizes unless already finalized, i.g. by `await using`.
+    [Symbol.asyncDispose]: () => Promise<void>;
 }
 
 export type Container<T extends Definition> = { [P in keyof T]: T[P]['value'] };
 
+export interface LazyResult<T extends Definition> {
+    container: LazyContainer<T>;
+    finalize: (promisesHandler?: PromisesHandler, options?: FinalizeOptions) => Promise<void>;
+    // Returns dependencies recorded so far.
+    graph: () => DependencyGraph;
+    // Returns bindings and requirements which nothing has used so far, and the slowest factories.
+    report: (options?: ReportOptions) => UsageReport;
+    // Finalizes unless already finalized, i.g. by `await using`.
+    [Symbol.asyncDispose]: () => Promise<void>;
+}
+
+/**
+ * Container which builds each value on its first access.
+ */
+export type LazyContainer<T extends Definition> = { [P in keyof T]: Promise<T[P]['value']> };
+
 export type Underlying<T extends Definition> = { [P in keyof T]: Resource<T[P]['value'], T[P]['dependencies']> };
 
+type DefinitionOf<D> = D extends Design<infer U> ? U : never;
+type BranchRequirements<U> = (U extends Definition ? (requirements: Requirements<U>) => void : never) extends (
+    requirements: infer R,
+) => void
+    ? R
+    : never;
+/**
+ * Keys bound in every branch, whose values are unions of the branches.
+ * They depend on the selector key and the requirements of all the branches.
+ */
+type Selected<K extends string, B extends { [name: string]: Design<any> }> = {
+    [P in keyof DefinitionOf<B[keyof B]>]: {
+        dependencies: { [key in K]: keyof B & string } & BranchRequirements<DefinitionOf<B[keyof B]>>;
+        value: DefinitionOf<B[keyof B]>[P]['value'];
+    };
+};
+
+/**
+ * Hides the keys by the new names. Bindings still resolve them by the original names, including names hidden by
+ * nested modules.
+ */
+const hideKeys = (design: Underlying<Definition>, renamed: { [key: string]: string }): Underlying<Definition> => {
+    const rename = (original: { [name: string]: string } = {}): { [name: string]: string } => {
+        const aliases = { ...renamed };
+        for (const name in original) {
+            const target = original[name];
+            aliases[name] = renamed[target] || target;
+        }
+        return aliases;
+    };
+    const underlying: Underlying<Definition> = {};
+    for (const key in design) {
+        const resource = design[key];
+        underlying[renamed[key] || key] = {
+            ...resource,
+            ...(resource.contributions
+                ? toCollection(
+                      resource.contributions.map(contribution => ({
+                          ...contribution,
+                          aliases: rename(contribution.aliases),
+                      })),
+                  )
+                : { aliases: rename(resource.aliases) }),
+            hidden: resource.hidden || key in renamed,
+        };
+    }
+    return underlying;
+};
+
+/**
+ * Renames private keys of the design which collide with other bindings of the other design, i.g. those of modules
+ * with the same name. Private keys are named by each design, so that the graph does not depend on other designs.
+ */
+const separatePrivateKeys = (design: Underlying<Definition>, other: Underlying<Definition>): Underlying<Definition> => {
+    const renamed: { [key: string]: string } = {};
+    for (const key in design) {
+        if (design[key].hidden && key in other && other[key] !== design[key]) {
+            let i = 2;
+            while (`${key}#${i}` in design || `${key}#${i}` in other) {
+                i++;
+            }
+            renamed[key] = `${key}#${i}`;
+        }
+    }
+    return Object.keys(renamed).length === 0 ? design : hideKeys(design, renamed);
+};
+
 /**
  * Design represents key-value styled dependency graph which can detect which dependent key is missing at compile time.
  *
@@ -81,43 +551,393 @@ export type Underlying<T extends Definition> = { [P in keyof T]: Resource<T[P]['
 export class Design<T extends Definition> {
     private constructor(public readonly design: Underlying<T>) {}
 
-    public bind = <K extends string, V, D extends NonNullable<unknown> = NonNullable<unknown>>(
+    public bind = <
+        K extends string,
+        V,
+        D extends NonNullable<unknown> = NonNullable<unknown>,
+        A extends unknown[] = [Injector<Container<T> & D>],
+    >(
         key: K,
-        resolvable: Resolvable<V, Container<T> & D>,
+        resolvable: Factory<V, Container<T> & D, A>,
         finalize: (item: V) => Promise<void> = () => Promise.resolve(),
-    ): Design<T & { [key in K]: { dependencies: D; value: V } }> => {
-        const underlying: Underlying<T & { [key in K]: { dependencies: D; value: V } }> = {
+        options: BindOptions = {},
+    ): Design<T & Bound<K, V, D, InjectedKeys<A>>> => {
+        const underlying: Underlying<Definition> = {
             ...this.design,
-            [key]: toResource(resolvable, finalize),
+            [key]: toResource(resolvable as Resolvable<V, Container<T> & D>, finalize, options),
         };
-        return new Design(underlying);
+        return new Design(underlying as any);
     };
 
     public bindResource = <
         K extends string,
-        V extends { finalize(): Promise<void> },
+        V extends Finalizable,
         D extends NonNullable<unknown> = NonNullable<unknown>,
+        A extends unknown[] = [Injector<Container<T> & D>],
     >(
         key: K,
-        resolvable: Resolvable<V, Container<T> & D>,
-    ): Design<T & { [key in K]: { dependencies: D; value: V } }> =>
-        this.bind(key, resolvable, resource => resource.finalize());
+        resolvable: Factory<V, Container<T> & D, A>,
+        options: BindOptions = {},
+    ): Design<T & Bound<K, V, D, InjectedKeys<A>>> => this.bind<K, V, D, A>(key, resolvable, finalizeResource, options);
 
-    public merge = <U extends Definition>(that: Design<U>): Design<T & U> => {
-        const underlying: Underlying<T & U> = {
+    /**
+     * Binds a value unless the key is bound otherwise, even by a design merged later.
+     */
+    public bindDefault = <
+        K extends string,
+        V,
+        D extends NonNullable<unknown> = NonNullable<unknown>,
+        A extends unknown[] = [Injector<Container<T> & D>],
+    >(
+        key: K,
+        resolvable: Factory<V, Container<T> & D, A>,
+        finalize: (item: V) => Promise<void> = () => Promise.resolve(),
+        options: BindOptions = {},
+    ): Design<T & Bound<K, V, D, InjectedKeys<A>>> => {
+        const existing: Resource<any, any> | undefined = (this.design as Underlying<Definition>)[key];
+        const underlying: Underlying<Definition> = {
+            ...this.design,
+            [key]:
+                typeof existing === 'undefined' || existing.fallback
+                    ? {
+                          ...toResource(resolvable as Resolvable<V, Container<T> & D>, finalize, options),
+                          fallback: true,
+                      }
+                    : existing,
+        };
+        return new Design(underlying as any);
+    };
+
+    /**
+     * Binds a value which is created for each access to `injector[key]`.
+     * Every created value is finalized by `finalize`.
+     */
+    public bindTransient = <
+        K extends string,
+        V,
+        D extends NonNullable<unknown> = NonNullable<unknown>,
+        A extends unknown[] = [Injector<Container<T> & D>],
+    >(
+        key: K,
+        resolvable: Factory<V, Container<T> & D, A>,
+        finalize: (item: V) => Promise<void> = () => Promise.resolve(),
+        options: BindOptions = {},
+    ): Design<T & Bound<K, V, D, InjectedKeys<A>>> => {
+        const underlying: Underlying<Definition> = {
+            ...this.design,
+            [key]: {
+                ...toResource(resolvable as Resolvable<V, Container<T> & D>, finalize, options),
+                transient: true,
+            },
+        };
+        return new Design(underlying as any);
+    };
+
+    /**
+     * Binds a function which creates a new value for each call.
+     * Every created value is finalized by `finalize` when the function is finalized, after which calls reject.
+     * `timeout` and `retry` apply to each call.
+     */
+    public bindFactory = <
+        K extends string,
+        V,
+        D extends NonNullable<unknown> = NonNullable<unknown>,
+        A extends unknown[] = [Injector<Container<T> & D>],
+    >(
+        key: K,
+        resolvable: Factory<V, Container<T> & D, A>,
+        finalize: (item: V) => Promise<void> = () => Promise.resolve(),
+        options: BindOptions = {},
+    ): Design<T & Bound<K, () => Promise<V>, D, InjectedKeys<A>>> => {
+        const { timeout, retry: retryOptions } = options;
+        const created = new Map<() => Promise<V>, V[]>();
+        const finalized = new WeakSet<() => Promise<V>>();
+        const createFactory = (injector: Injector<Container<T> & D>) => {
+            const factory = async (): Promise<V> => {
+                if (finalized.has(factory)) {
+                    throw new Error('already finalized');
+                }
+                // Each call has its own signal, which is aborted when the call times out.
+                const controller = new AbortController();
+                const called: Injector<Container<T> & D> = Object.create(injector);
+                attachSignal(called, controller.signal);
+                attachProviders(called, providerOf(injector));
+                let timedOut = false;
+                const creation = retry(
+                    key,
+                    async () => (resolvable as Resolvable<V, Container<T> & D>)(called),
+                    retryOptions,
+                    controller.signal,
+                ).then(async instance => {
+                    if (timedOut || finalized.has(factory)) {
+                        // Nobody can finalize the value later.
+                        await finalize(instance);
+                        throw new Error('already finalized');
+                    }
+                    created.set(factory, [...(created.get(factory) || []), instance]);
+                    return instance;
+                });
+                return withTimeout(creation, timeout, () => {
+                    timedOut = true;
+                    controller.abort();
+                    return new TimeoutError(timeout as number);
+                });
+            };
+            return factory;
+        };
+        const dependencies = dependenciesOf(resolvable);
+        return this.bind(
+            key,
+            typeof dependencies === 'undefined'
+                ? createFactory
+                : declareDependencies(createFactory, dependencies, optionalDependenciesOf(resolvable)),
+            async factory => {
+                finalized.add(factory);
+                const instances = created.get(factory) || [];
+                created.delete(factory);
+                await Promise.all(instances.map(finalize));
+            },
+        ) as any;
+    };
+
+    /**
+     * Binds a family of values created for each parameter, such as a client for each tenant.
+     * Members are tracked in the dependency graph as `key(param)`, and finalized by `finalize`.
+     */
+    public bindFamily = <
+        K extends string,
+        P extends string | number,
+        V,
+        D extends NonNullable<unknown> = NonNullable<unknown>,
+    >(
+        key: K,
+        resolvable: (param: P, injector: Injector<Container<T> & D>) => V | Promise<V>,
+        finalize: (item: V) => Promise<void> = () => Promise.resolve(),
+        options: BindOptions = {},
+    ): Design<T & Bound<K, Family<P, V>, D, ImplicitKeys<T, D>>> => {
+        const underlying: Underlying<T & Bound<K, Family<P, V>, D, ImplicitKeys<T, D>>> = {
             ...this.design,
-            ...that.design,
+            [key]: toFamily(resolvable, finalize, options),
         };
         return new Design(underlying);
     };
 
-    public resolve = (requirements: Requirements<T>): Promise<Result<T>> =>
-        resolve(this.merge(Design.pure(requirements)).design);
+    /**
+     * Binds the value for the key only when the predicate holds, such as for a profile.
+     * Otherwise the key is resolved by the binding so far, if any, which cannot be a family or contributions.
+     * The binding is resolved only when selected, as `key@when1`, `key@when2`... in the graph.
+     */
+    public bindWhen = <
+        K extends string,
+        V,
+        C extends NonNullable<unknown> = NonNullable<unknown>,
+        D extends NonNullable<unknown> = NonNullable<unknown>,
+    >(
+        predicate: (injector: Injector<Container<T> & C>) => boolean | Promise<boolean>,
+        key: K extends Exclude<keyof T, DecoratableKeys<T>> ? never : K,
+        resolvable: Resolvable<V, Container<T> & D>,
+        finalize: (item: V) => Promise<void> = () => Promise.resolve(),
+        options: BindOptions = {},
+    ): Design<Conditional<T, K, V, C, D>> => {
+        const fallback: Resource<any, any> | undefined = (this.design as Underlying<Definition>)[key];
+        if (typeof fallback !== 'undefined' && !isDecoratable(fallback)) {
+            throw new Error(`"${key}" cannot be bound conditionally since it is bound by bindFamily or contribute`);
+        }
+        let n = 1;
+        while (`${key}@when${n}` in this.design) {
+            n++;
+        }
+        const node = `${key}@when${n}`;
+        const predicateDependencies = dependenciesOf(predicate);
+        const underlying: Underlying<Definition> = {
+            ...this.design,
+            [node]: { ...toResource(resolvable, finalize, options), hidden: true, conditional: true },
+            [key]: toSwitch(
+                async (injector: Injector<Container<T> & C>) => ((await predicate(injector)) ? node : undefined),
+                typeof predicateDependencies === 'undefined' ? undefined : [...predicateDependencies, node],
+                fallback,
+            ),
+        };
+        return new Design(underlying as any);
+    };
+
+    /**
+     * Contributes a value to the array bound to the key.
+     * Contributions to the same key are collected across `merge`.
+     */
+    public contribute = <
+        K extends string,
+        V,
+        D extends NonNullable<unknown> = NonNullable<unknown>,
+        A extends unknown[] = [Injector<Container<T> & D>],
+    >(
+        key: K,
+        resolvable: Factory<V, Container<T> & D, A>,
+        finalize: (item: V) => Promise<void> = () => Promise.resolve(),
+    ): Design<Contributed<T, K, V, D, A>> => {
+        const existing: Resource<any, any> | undefined = (this.design as Underlying<Definition>)[key];
+        const contribution = toResource(resolvable as Resolvable<V, Container<T> & D>, finalize);
+        const underlying: Underlying<Contributed<T, K, V, D, A>> = {
+            ...this.design,
+            [key]: toCollection([...(existing?.contributions || []), contribution]),
+        } as any;
+        return new Design(underlying);
+    };
+
+    /**
+     * Replaces the binding for the existing key with a value of the same type, or a function to resolve it.
+     * Functions are always taken as the latter since they cannot be told from values of function types.
+     */
+    public override = <
+        K extends keyof T & string,
+        V extends T[K]['value'],
+        D extends NonNullable<unknown> = NonNullable<unknown>,
+    >(
+        key: K,
+        valueOrResolvable: ValueOrResolvable<V, Container<T> & D>,
+        finalize: (item: V) => Promise<void> = () => Promise.resolve(),
+    ): Design<Omit<T, K> & { [key in K]: { dependencies: D; value: T[K]['value'] } & Reaches<ImplicitKeys<T, D>> }> => {
+        const resolvable: Resolvable<V, Container<T> & D> =
+            typeof valueOrResolvable === 'function'
+                ? (valueOrResolvable as Resolvable<V, Container<T> & D>)
+                : declareDependencies(() => valueOrResolvable as V, []);
+        const underlying: Underlying<Definition> = {
+            ...this.design,
+            [key]: toResource(resolvable, finalize),
+        };
+        return new Design(underlying as any);
+    };
+
+    /**
+     * Wraps the value bound to the key, i.g. for logging or metrics. Decorators are applied in the order of calls.
+     * The finalizer of the binding still takes the value before decoration.
+     */
+    public decorate = <
+        K extends DecoratableKeys<T> & keyof T & string,
+        W,
+        D extends NonNullable<unknown> = NonNullable<unknown>,
+    >(
+        key: K,
+        decorator: (value: T[K]['value'], injector: Injector<Container<T> & D>) => W | Promise<W>,
+    ): Design<
+        Omit<T, K> & {
+            [key in K]: { dependencies: T[K]['dependencies'] & D; value: W } & ReachesOf<T[K]> &
+                Reaches<ImplicitKeys<T, D>>;
+        }
+    > => {
+        if (!isDecoratable(this.design[key])) {
+            throw new Error(`"${key}" cannot be decorated since it is bound by bindFamily or contribute`);
+        }
+        const underlying: Underlying<Definition> = {
+            ...this.design,
+            [key]: decorateResource<T[K]['value'], W, any>(this.design[key], decorator),
+        };
+        return new Design(underlying as any);
+    };
+
+    /**
+     * Decorates every value bound so far whose key matches the predicate, keeping its type.
+     * Families and contributions are never matched.
+     */
+    public intercept = <D extends NonNullable<unknown> = NonNullable<unknown>>(
+        predicate: (key: DecoratableKeys<T> & keyof T & string) => boolean,
+        interceptor: <V>(value: V, key: keyof T & string, injector: Injector<Container<T> & D>) => V | Promise<V>,
+    ): Design<T & { [P in keyof T]: { dependencies: D } & Reaches<ImplicitKeys<T, D>> }> => {
+        const underlying: Underlying<Definition> = { ...this.design };
+        for (const key in this.design) {
+            if (isDecoratable(this.design[key]) && predicate(key as any)) {
+                underlying[key] = decorateResource<unknown, unknown, any>(
+                    this.design[key],
+                    (value, injector: Injector<Container<T> & D>) => interceptor(value, key, injector),
+                    interceptor,
+                );
+            }
+        }
+        return new Design(underlying as any);
+    };
+
+    /**
+     * Merges the given design.
+     * Keys bound in both designs must have the same value type.
+     * Bindings by `bindDefault` are replaced by the others without conflicts.
+     */
+    public merge = <U extends Definition>(
+        // Prohibit from merging if value types of colliding keys conflict.
+        that: Design<U> & { [P in ConflictingValueKeys<T, U>]: never },
+        options: MergeOptions = {},
+    ): Design<Merged<T, U>> => {
+        const { onConflict = 'override' } = options;
+        const rightDesign = separatePrivateKeys(that.design, this.design as Underlying<Definition>);
+        const leftDesign = separatePrivateKeys(this.design as Underlying<Definition>, rightDesign);
+        const underlying: Underlying<Definition> = {
+            ...leftDesign,
+            ...rightDesign,
+        };
+        const collidingKeys: string[] = [];
+        for (const key in rightDesign) {
+            const left: Resource<any, any> | undefined = leftDesign[key];
+            const right: Resource<any, any> = rightDesign[key];
+            if (typeof left === 'undefined') {
+                continue;
+            }
+            if (left.contributions && right.contributions) {
+                underlying[key] = toCollection([...left.contributions, ...right.contributions]);
+            } else if (right.fallback && !left.fallback) {
+                underlying[key] = left;
+            } else if (left.fallback && !right.fallback) {
+                continue;
+            } else {
+                collidingKeys.push(key);
+                if (onConflict === 'keepLeft') {
+                    underlying[key] = left;
+                }
+            }
+        }
+        if (onConflict === 'error' && collidingKeys.length > 0) {
+            throw new Error(`conflicting keys detected: ${collidingKeys.join(', ')}`);
+        }
+        return new Design(underlying as Underlying<Merged<T, U>>);
+    };
+
+    private provide = <R extends { [key: string]: any }>(requirements: R): Underlying<T> => {
+        const underlying: Underlying<Definition> = { ...this.design };
+        const provided: Underlying<Definition> = Design.pure(requirements).design;
+        for (const key in provided) {
+            underlying[key] = { ...provided[key], provided: true };
+        }
+        return underlying as Underlying<T>;
+    };
+
+    /**
+     * Checks the design with the requirements without calling any factories.
+     * Only dependencies declared by `inject`, `injectClass` or `declareDependencies` are checked.
+     */
+    public validate = (requirements: { [key: string]: unknown } = {}): ValidationReport =>
+        validate(this.design, requirements);
+
+    public resolve = (requirements: Requirements<T>, options?: ResolveOptions): Promise<Result<T>> =>
+        resolve(this.provide(requirements), options);
+
+    /**
+     * Resolves nothing until a value of the returned container is accessed.
+     * `finalize` only finalizes values which have been built.
+     */
+    public resolveLazy = (requirements: Requirements<T>, options?: ResolveOptions): LazyResult<T> =>
+        resolveLazy(this.provide(requirements), options);
+
+    /**
+     * Resolves only values for the given keys and what they transitively depend on.
+     */
+    public resolveOnly = <K extends keyof T>(
+        keys: K[],
+        requirements: Requirements<Picked<T, K>>,
+        options?: ResolveOptions,
+    ): Promise<Result<Picked<T, K>>> => resolve(this.provide(requirements), options, keys) as any;
 
     public use =
-        (requirements: Requirements<T>) =>
+        (requirements: Requirements<T>, options?: ResolveOptions) =>
         async <A>(f: (container: Container<T>) => Promise<A>): Promise<A> => {
-            const { container, finalize } = await this.resolve(requirements);
+            const { container, finalize } = await this.resolve(requirements, options);
             try {
                 const result = await f(container);
                 return result;
@@ -134,6 +954,7 @@ export class Design<T extends Definition> {
             design[key] = {
                 resolve: () => Promise.resolve(mapping[key]),
                 finalize: () => Promise.resolve(),
+                dependencies: [],
             };
         }
         return new Design(design);
@@ -141,6 +962,130 @@ export class Design<T extends Definition> {
 
     public static empty: Design<NonNullable<unknown>> = new Design({});
 
+    /**
+     * Binds values read from environment variables, whose types are inferred from the schema.
+     * Variables are read once on each resolution, which fails with EnvironmentError listing every missing or invalid
+     * variable of the keys resolved. Variables of the other keys are never required.
+     *
+     * i.g.)
+     * ```
+     * Design.fromEnv({
+     *   port: { type: 'number', default: 8080 },
+     *   logLevel: { type: 'enum', values: ['debug', 'info'], name: 'LOG' },
+     * }) // Design<{ port: number, logLevel: 'debug' | 'info' }>
+     * ```
+     */
+    public static fromEnv = <const S extends EnvSchema>(
+        schema: S,
+        env?: Environment,
+    ): Design<{ [P in keyof S]: { dependencies: NonNullable<unknown>; value: EnvValue<S[P]> } }> => {
+        // Private key which every key takes the variables from.
+        const source = '@env';
+        // Keys requested for each reading of the variables.
+        const requested = new WeakMap<Promise<unknown>, string[]>();
+        const underlying: Underlying<Definition> = {
+            [source]: {
+                resolve: async () => readEnv(schema, env),
+                finalize: () => Promise.resolve(),
+                hidden: true,
+                dependencies: [],
+            },
+        };
+        for (const key in schema) {
+            underlying[key] = {
+                resolve: async (injector: Injector<any>) => {
+                    const reading: Promise<ReturnType<typeof readEnv>> = injector[source];
+                    // Keys resolved together are requested before the variables are read, to be reported at once.
+                    requested.set(reading, [...(requested.get(reading) || []), key]);
+                    const { values, invalid } = await reading;
+                    if (key in invalid) {
+                        const keys = requested.get(reading) || [];
+                        throw new EnvironmentError(keys.filter(k => k in invalid).map(k => invalid[k]));
+                    }
+                    return values[key];
+                },
+                finalize: () => Promise.resolve(),
+                dependencies: [source],
+            };
+        }
+        return new Design(underlying as any);
+    };
+
+    /**
+     * Hides keys which are not exported. Bindings of the module still resolve them by their names,
+     * while they never collide with keys outside of the module.
+     * Exported keys depend on the requirements of the whole module.
+     */
+    public static module = <U extends Definition, K extends keyof U & string>(
+        design: Design<U>,
+        options: ModuleOptions<K>,
+    ): Design<{ [P in K]: { dependencies: Requirements<U>; value: U[P]['value'] } & ContributionOf<U[P]> }> => {
+        const name = options.name || (options.exports as string[]).join('+') || 'module';
+        const renamed: { [key: string]: string } = {};
+        for (const key in design.design) {
+            if (!(options.exports as string[]).includes(key)) {
+                renamed[key] = `${name}.${key}`;
+            }
+        }
+        return new Design(hideKeys(design.design, renamed) as any);
+    };
+
+    /**
+     * Selects one of the designs by the value of the key, such as a profile.
+     * Keys bound in every branch are visible as unions of the branches, and the other keys are private to their
+     * branches. Bindings of the branches are resolved only when selected, as `key@selector=branch` in the graph.
+     *
+     * i.g.)
+     * ```
+     * Design.select('profile', { prod: smtpMailerDesign, test: fakeMailerDesign })
+     * // Design<{ mailer: SmtpMailer | FakeMailer }> which requires `profile: 'prod' | 'test'`
+     * ```
+     */
+    public static select = <K extends string, B extends { [name: string]: Design<any> }>(
+        key: K,
+        branches: B,
+    ): Design<Selected<K, B>> => {
+        const names = Object.keys(branches);
+        const nodeOf = (name: string, bound: string) => `${bound}@${key}=${name}`;
+        const underlying: Underlying<Definition> = {};
+        names.forEach(name => {
+            const design: Underlying<Definition> = branches[name].design;
+            const renamed: { [key: string]: string } = {};
+            for (const bound in design) {
+                renamed[bound] = nodeOf(name, bound);
+            }
+            const hidden = hideKeys(design, renamed);
+            for (const node in hidden) {
+                underlying[node] = { ...hidden[node], conditional: true };
+            }
+        });
+        const shared =
+            names.length === 0
+                ? []
+                : Object.keys(branches[names[0]].design).filter(bound =>
+                      names.every(name => bound in branches[name].design),
+                  );
+        shared.forEach(bound => {
+            underlying[bound] = toSwitch(
+                async (injector: Injector<{ [key: string]: unknown }>) => {
+                    const name = String(await injector[key]);
+                    if (!names.includes(name)) {
+                        throw new Error(`no branch is selected by "${key}": ${name}`);
+                    }
+                    return nodeOf(name, bound);
+                },
+                [key, ...names.map(name => nodeOf(name, bound))],
+            );
+        });
+        return new Design(underlying as any);
+    };
+
     public static bind = Design.empty.bind;
     public static bindResource = Design.empty.bindResource;
+    public static bindDefault = Design.empty.bindDefault;
+    public static bindTransient = Design.empty.bindTransient;
+    public static bindFactory = Design.empty.bindFactory;
+    public static bindFamily = Design.empty.bindFamily;
+    public static bindWhen = Design.empty.bindWhen;
+    public static contribute = Design.empty.contribute;
 }
@@ -0,0 +1,115 @@
+import { Design } from './design';
+import { EnvironmentError, ResolutionError } from './errors';
+
+describe('Design.fromEnv', () => {
+    const isEndpoints = (value: unknown): value is string[] =>
+        Array.isArray(value) && value.every(item => typeof item === 'string');
+    const schema = {
+        port: { type: 'number', default: 8080 },
+        dbUrl: { type: 'string' },
+        debug: { type: 'boolean', name: 'APP_DEBUG' },
+        endpoints: { type: 'json', is: isEndpoints },
+        logLevel: { type: 'enum', values: ['debug', 'info'], default: 'info' },
+        region: { type: 'string', required: false },
+    } as const;
+
+    it('binds values parsed from the environment variables', async () => {
+        const { container } = await Design.fromEnv(schema, {
+            PORT: '3000',
+            DB_URL: 'db://localhost',
+            APP_DEBUG: '1',
+            ENDPOINTS: '["a", "b"]',
+            LOG_LEVEL: 'debug',
+        }).resolve({});
+
+        expect(container).toEqual({
+            port: 3000,
+            dbUrl: 'db://localhost',
+            debug: true,
+            endpoints: ['a', 'b'],
+            logLevel: 'debug',
+            region: undefined,
+        });
+    });
+
+    it('takes defaults for the variables which are not set', async () => {
+        const { container } = await Design.fromEnv(schema, {
+            DB_URL: 'db://localhost',
+            APP_DEBUG: 'false',
+            ENDPOINTS: '[]',
+            REGION: 'ap-northeast-1',
+        }).resolve({});
+
+        expect(container.port).toBe(8080);
+        expect(container.logLevel).toBe('info');
+        expect(container.region).toBe('ap-northeast-1');
+    });
+
+    it('reports every missing or invalid variable at once', async () => {
+        const error = await Design.fromEnv(schema, {
+            PORT: 'abc',
+            APP_DEBUG: 'yes',
+            ENDPOINTS: '[1]',
+            LOG_LEVEL: 'trace',
+        })
+            .resolve({})
+            .catch(e => e);
+
+        expect(error).toBeInstanceOf(ResolutionError);
+        expect(error.cause).toBeInstanceOf(EnvironmentError);
+        expect(error.cause.variables.map(({ key }: { key: string }) => key)).toEqual([
+            'port',
+            'dbUrl',
+            'debug',
+            'endpoints',
+            'logLevel',
+        ]);
+        expect(error.cause.message).toBe(
+            'invalid environment variables: PORT is not a number, DB_URL is not set, APP_DEBUG is not a boolean, ' +
+                'ENDPOINTS has an unexpected JSON, LOG_LEVEL is not one of debug, info',
+        );
+    });
+
+    it('requires the variables of the keys resolved only', async () => {
+        const design = Design.fromEnv(schema, { PORT: 'abc', APP_DEBUG: 'yes' });
+
+        expect((await design.resolveOnly(['logLevel', 'region'], {})).container).toEqual({
+            logLevel: 'info',
+            region: undefined,
+        });
+        const error = await design.resolveOnly(['port', 'dbUrl', 'logLevel'], {}).catch(e => e);
+        expect(error.cause.message).toBe('invalid environment variables: PORT is not a number, DB_URL is not set');
+
+        const { container } = design.resolveLazy({});
+        expect(await container.logLevel).toBe('info');
+        await expect(container.debug).rejects.toThrow('invalid environment variables: APP_DEBUG is not a boolean');
+    });
+
+    it('merges with another design from environment variables', async () => {
+        const { container } = await Design.fromEnv({ port: { type: 'number' } }, { PORT: '80' })
+            .merge(Design.fromEnv({ host: { type: 'string' } }, { HOST: 'localhost' }), { onConflict: 'error' })
+            .resolve({});
+        expect(container).toEqual({ port: 80, host: 'localhost' });
+    });
+
+    it('reads the variables once for each resolution', async () => {
+        let reads = 0;
+        const env = {
+            get TOKEN() {
+                reads += 1;
+                return 'secret';
+            },
+        };
+        await Design.fromEnv({ token: { type: 'string' }, copy: { type: 'string', name: 'TOKEN' } }, env).resolve({});
+        expect(reads).toBe(2);
+    });
+
+    it('reads the variables on each resolution', async () => {
+        const env: { [name: string]: string } = {};
+        const design = Design.fromEnv({ token: { type: 'string' } }, env);
+
+        await expect(design.resolve({})).rejects.toThrow('TOKEN is not set');
+        env.TOKEN = 'secret';
+        expect((await design.resolve({})).container.token).toBe('secret');
+    });
+});
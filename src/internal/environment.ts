@@ -0,0 +1,121 @@
+import { InvalidVariable } from './errors';
+
+interface VariableOptions<V> {
+    // Name of the environment variable. Defaults to the key in upper snake case, i.g. `DB_URL` for `dbUrl`.
+    name?: string;
+    // Used when the variable is not set.
+    default?: V;
+    // Defaults to true. The value is undefined when the variable is not set if false and no default is given.
+    required?: boolean;
+}
+
+/**
+ * How to read a value from an environment variable.
+ * - string: the variable as it is
+ * - number: a finite number
+ * - boolean: `true`, `false`, `1` or `0`
+ * - json: a JSON text, checked by `is` if given
+ * - enum: one of `values`
+ */
+export type Variable =
+    | ({ type: 'string' } & VariableOptions<string>)
+    | ({ type: 'number' } & VariableOptions<number>)
+    | ({ type: 'boolean' } & VariableOptions<boolean>)
+    | ({ type: 'json'; is?: (value: unknown) => boolean } & VariableOptions<unknown>)
+    | ({ type: 'enum'; values: readonly string[] } & VariableOptions<string>);
+
+export type EnvSchema = { [key: string]: Variable };
+
+export type Environment = { [name: string]: string | undefined };
+
+type Parsed<S extends Variable> = S extends { type: 'string' }
+    ? string
+    : S extends { type: 'number' }
+    ? number
+    : S extends { type: 'boolean' }
+    ? boolean
+    : S extends { type: 'enum'; values: readonly (infer E)[] }
+    ? E
+    : S extends { is: (value: unknown) => value is infer V }
+    ? V
+    : unknown;
+
+export type EnvValue<S extends Variable> = S extends { default: any }
+    ? Parsed<S>
+    : S extends { required: false }
+    ? Parsed<S> | undefined
+    : Parsed<S>;
+
+// Declared here not to depend on the types of Node.js.
+declare const process: { env: Environment };
+
+const nameOf = (key: string, variable: Variable): string =>
+    variable.name || key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+
+// Returns the parsed value, or the reason why it is invalid.
+const parse = (variable: Variable, raw: string): { value: unknown } | { reason: string } => {
+    switch (variable.type) {
+        case 'string':
+            return { value: raw };
+        case 'number': {
+            const value = Number(raw);
+            return raw.trim() === '' || !isFinite(value) ? { reason: 'is not a number' } : { value };
+        }
+        case 'boolean':
+            if (raw === 'true' || raw === '1') {
+                return { value: true };
+            }
+            if (raw === 'false' || raw === '0') {
+                return { value: false };
+            }
+            return { reason: 'is not a boolean' };
+        case 'json': {
+            let value: unknown;
+            try {
+                value = JSON.parse(raw);
+            } catch (e) {
+                return { reason: 'is not a valid JSON' };
+            }
+            return typeof variable.is === 'undefined' || variable.is(value)
+                ? { value }
+                : { reason: 'has an unexpected JSON' };
+        }
+        case 'enum':
+            return variable.values.includes(raw)
+                ? { value: raw }
+                : { reason: `is not one of ${variable.values.join(', ')}` };
+    }
+};
+
+/**
+ * Reads every variable of the schema, and returns the missing or invalid ones by their keys besides the values.
+ */
+export const readEnv = (
+    schema: EnvSchema,
+    env: Environment = process.env,
+): { values: { [key: string]: unknown }; invalid: { [key: string]: InvalidVariable } } => {
+    const values: { [key: string]: unknown } = {};
+    const invalid: { [key: string]: InvalidVariable } = {};
+    for (const key in schema) {
+        const variable = schema[key];
+        const name = nameOf(key, variable);
+        const raw = env[name];
+        if (typeof raw === 'undefined') {
+            if ('default' in variable) {
+                values[key] = variable.default;
+            } else if (variable.required === false) {
+                values[key] = undefined;
+            } else {
+                invalid[key] = { key, name, reason: 'is not set' };
+            }
+            continue;
+        }
+        const parsed = parse(variable, raw);
+        if ('reason' in parsed) {
+            invalid[key] = { key, name, reason: parsed.reason };
+        } else {
+            values[key] = parsed.value;
+        }
+    }
+    return { values, invalid };
+};
@@ -0,0 +1,81 @@
+const messageOf = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Thrown when a factory fails.
+ * `path` is the chain of keys from the key resolved first to the failing key.
+ */
+export class ResolutionError extends Error {
+    // Set when finalizers of already built values fail after this error.
+    public finalizationError?: FinalizationError;
+
+    public constructor(public readonly key: string, public readonly path: string[], public readonly cause: unknown) {
+        super(`failed to resolve "${key}" because: ${messageOf(cause)}`);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'ResolutionError';
+    }
+}
+
+/**
+ * Thrown when a dependency makes a cycle.
+ * `cycle` starts and ends with the same key.
+ */
+export class CyclicDependencyError<T = PropertyKey> extends Error {
+    public constructor(public readonly cycle: T[]) {
+        super(`cyclic dependency detected: ${cycle.join(' -> ')}`);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'CyclicDependencyError';
+    }
+}
+
+export interface FinalizationFailure {
+    key: string;
+    error: unknown;
+}
+
+/**
+ * Thrown when finalizers fail.
+ */
+export class FinalizationError extends Error {
+    public constructor(public readonly failures: FinalizationFailure[]) {
+        super(
+            `failed to finalize ${failures
+                .map(({ key, error }) => `"${key}" because: ${messageOf(error)}`)
+                .join(', ')}`,
+        );
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'FinalizationError';
+    }
+}
+
+/**
+ * Thrown when a factory or a finalizer does not complete in time.
+ */
+export class TimeoutError extends Error {
+    // Set when finalizers of already built values fail after the resolution timed out.
+    public finalizationError?: FinalizationError;
+
+    public constructor(public readonly timeout: number) {
+        super(`timed out after ${timeout}ms`);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'TimeoutError';
+    }
+}
+
+export interface InvalidVariable {
+    key: string;
+    // Name of the environment variable.
+    name: string;
+    reason: string;
+}
+
+/**
+ * Thrown when environment variables for `Design.fromEnv` are missing or invalid.
+ * `variables` lists every such variable, not only the first one.
+ */
+export class EnvironmentError extends Error {
+    public constructor(public readonly variables: InvalidVariable[]) {
+        super(`invalid environment variables: ${variables.map(({ name, reason }) => `${name} ${reason}`).join(', ')}`);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'EnvironmentError';
+    }
+}
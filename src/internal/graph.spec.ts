@@ -0,0 +1,64 @@
+import { DAG } from './dag';
+import { buildGraph, DependencyGraph, toDot, toJSON, toMermaid } from './graph';
+
+describe('graph', () => {
+    const graph: DependencyGraph = {
+        nodes: ['a', 'b', 'c"'],
+        edges: [
+            { from: 'a', to: 'b' },
+            { from: 'b', to: 'c"' },
+        ],
+        levels: [['a'], ['b'], ['c"']],
+    };
+
+    describe('buildGraph', () => {
+        it('sorts nodes and edges', () => {
+            const dag = new DAG<string>();
+            dag.addEdge('b', 'c');
+            dag.addEdge('a', 'c');
+            dag.addEdge('a', 'b');
+
+            expect(buildGraph(dag)).toEqual({
+                nodes: ['a', 'b', 'c'],
+                edges: [
+                    { from: 'a', to: 'b' },
+                    { from: 'a', to: 'c' },
+                    { from: 'b', to: 'c' },
+                ],
+                levels: [['a'], ['b'], ['c']],
+            });
+        });
+    });
+
+    describe('toDot', () => {
+        it('renders the graph in DOT language', () => {
+            expect(toDot(graph)).toEqual(
+                [
+                    'digraph dependencies {',
+                    '    "a";',
+                    '    "b";',
+                    '    "c\\"";',
+                    '    "a" -> "b";',
+                    '    "b" -> "c\\"";',
+                    '}',
+                ].join('\n'),
+            );
+        });
+    });
+
+    describe('toMermaid', () => {
+        it('renders the graph as a flowchart', () => {
+            expect(toMermaid(graph)).toEqual(
+                ['graph TD', '    n0["a"]', '    n1["b"]', '    n2["c#quot;"]', '    n0 --> n1', '    n1 --> n2'].join(
+                    '\n',
+                ),
+            );
+        });
+    });
+
+    describe('toJSON', () => {
+        it('renders the graph as JSON', () => {
+            expect(JSON.parse(toJSON(graph))).toEqual(graph);
+        });
+    });
+});
@@ -0,0 +1,54 @@
+import { DAG } from './dag';
+
+/**
+ * Serializable dependency graph recorded while resolving.
+ * Each edge means `from` depends on `to`.
+ * `levels` lists keys from less dependencies to more dependencies, i.g. the order of finalization.
+ */
+export interface DependencyGraph {
+    nodes: string[];
+    edges: { from: string; to: string }[];
+    levels: string[][];
+}
+
+const compare = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+export const buildGraph = <T extends PropertyKey>(dag: DAG<T>): DependencyGraph => ({
+    nodes: dag
+        .nodes()
+        .map(node => node.toString())
+        .sort(compare),
+    edges: dag
+        .edges()
+        .map(([from, to]) => ({ from: from.toString(), to: to.toString() }))
+        .sort((a, b) => compare(a.from, b.from) || compare(a.to, b.to)),
+    levels: dag.dependenciesForEachDepth().map(keys => keys.map(key => key.toString()).sort(compare)),
+});
+
+const quote = (s: string): string => `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Renders the graph in Graphviz DOT language.
+ */
+export const toDot = (graph: DependencyGraph): string =>
+    [
+        'digraph dependencies {',
+        ...graph.nodes.map(node => `    ${quote(node)};`),
+        ...graph.edges.map(({ from, to }) => `    ${quote(from)} -> ${quote(to)};`),
+        '}',
+    ].join('\n');
+
+/**
+ * Renders the graph as a Mermaid flowchart.
+ */
+export const toMermaid = (graph: DependencyGraph): string => {
+    // Mermaid cannot take arbitrary keys as node ids.
+    const ids = new Map(graph.nodes.map((node, i): [string, string] => [node, `n${i}`]));
+    return [
+        'graph TD',
+        ...graph.nodes.map(node => `    ${ids.get(node)}["${node.replace(/"/g, '#quot;')}"]`),
+        ...graph.edges.map(({ from, to }) => `    ${ids.get(from)} --> ${ids.get(to)}`),
+    ].join('\n');
+};
+
+export const toJSON = (graph: DependencyGraph): string => JSON.stringify(graph, null, 2);
@@ -1,7 +1,11 @@
-type OptionalKeys<T> = { [K in keyof T]: T[K] extends Required<T>[K] ? never : K }[keyof T];
+import { OptionalKeys } from './design';
+import { declareDependencies } from './metadata';
+
 type InjectorFor<T, K extends keyof T> = Exclude<keyof T, K | OptionalKeys<T>> extends never
     ? { [P in K]: Promise<T[P]> }
     : never;
+// Prevents K from being inferred from the injector type which Design#bind expects.
+type NoInference<T> = [T][T extends any ? 0 : never];
 
 async function pick<T, K extends keyof T>(
     injector: { [P in K]: Promise<T[P]> },
@@ -10,12 +14,23 @@ async function pick<T, K extends keyof T>(
     return Object.fromEntries(await Promise.all(keys.map(async name => [name, await injector[name]])));
 }
 
-export const inject =
-    <T, K extends keyof T, V>(f: (params: { [P in K]: T[P] }) => V | Promise<V>, keys: K[]) =>
-    async (injector: InjectorFor<T, K>): Promise<V> => {
-        const params = await pick(injector, keys);
-        return f(params);
-    };
+// `optional` lists keys which may be neither bound nor required, for `Design#validate`.
+export const inject = <T, K extends keyof T, V>(
+    f: (params: { [P in K]: T[P] }) => V | Promise<V>,
+    keys: K[],
+    optional: (K & OptionalKeys<T>)[] = [],
+) =>
+    declareDependencies(
+        async (injector: InjectorFor<T, NoInference<K>>): Promise<V> => {
+            const params = await pick(injector, keys);
+            return f(params);
+        },
+        keys.map(String),
+        optional.map(String),
+    );
 
-export const injectClass = <T, K extends keyof T, V>(Class: new (params: { [P in K]: T[P] }) => V, keys: K[]) =>
-    inject((params: { [P in K]: T[P] }) => new Class(params), keys);
+export const injectClass = <T, K extends keyof T, V>(
+    Class: new (params: { [P in K]: T[P] }) => V,
+    keys: K[],
+    optional: (K & OptionalKeys<T>)[] = [],
+) => inject((params: { [P in K]: T[P] }) => new Class(params), keys, optional);
@@ -0,0 +1,22 @@
+const declarations: WeakMap<object, { keys: string[]; optional: string[] }> = new WeakMap();
+
+/**
+ * Declares keys which the function takes from the injector, so that `Design#validate` can check them without calling it.
+ * Keys in `optional` are among `keys`, which the function does without. `inject` and `injectClass` declare them
+ * automatically.
+ *
+ * i.g.)
+ * ```
+ * Design.bind('greeting', declareDependencies(async (injector: Injector<{ name: string }>) => `hello ${await injector.name}`, ['name']));
+ * ```
+ */
+export const declareDependencies = <F extends object>(f: F, keys: string[], optional: string[] = []): F => {
+    declarations.set(f, { keys, optional });
+    return f;
+};
+
+// Returns keys declared for the function if any.
+export const dependenciesOf = (f: object): string[] | undefined => declarations.get(f)?.keys;
+
+// Returns keys declared as optional for the function.
+export const optionalDependenciesOf = (f: object): string[] => declarations.get(f)?.optional || [];
@@ -0,0 +1,118 @@
+import { Design, Injector } from './design';
+import { Observer, TimingReporter } from './observer';
+
+describe('Observer', () => {
+    it('is notified of the lifecycle of each binding', async () => {
+        const events: string[] = [];
+        const observer: Observer = {
+            onResolutionStart: ({ key, path }) => events.push(`start ${key} via ${path.join(' -> ')}`),
+            onResolutionSuccess: ({ key }) => events.push(`success ${key}`),
+            onResolutionFailure: ({ key }) => events.push(`failure ${key}`),
+            onFinalizationStart: ({ key }) => events.push(`finalizing ${key}`),
+            onFinalizationEnd: ({ key, error }) => events.push(`finalized ${key}${error ? ' with error' : ''}`),
+        };
+        const design = Design.bind('dependency', () => 1).bind(
+            'dependent',
+            async (injector: Injector<{ dependency: number; requirement: number }>) =>
+                (await injector.requirement) + (await injector.dependency),
+        );
+
+        const { finalize } = await design.resolve({ requirement: 2 }, { observers: [observer] });
+        await finalize();
+
+        expect(events).toEqual([
+            'start dependency via dependency',
+            'start dependent via dependent',
+            'start requirement via dependent -> requirement',
+            'success dependency',
+            'success requirement',
+            'success dependent',
+            'finalizing dependent',
+            'finalized dependent',
+            'finalizing dependency',
+            'finalizing requirement',
+            'finalized dependency',
+            'finalized requirement',
+        ]);
+    });
+
+    it('does not change the outcome by throwing', async () => {
+        const throwing = () => {
+            throw new Error('observer fails');
+        };
+        const events: string[] = [];
+        const observer: Observer = {
+            onResolutionStart: throwing,
+            onResolutionSuccess: throwing,
+            onFinalizationStart: throwing,
+            onFinalizationEnd: throwing,
+        };
+
+        const { container, finalize } = await Design.bind(
+            'key',
+            () => 1,
+            async () => {
+                events.push('finalized');
+            },
+        ).resolve({}, { observers: [observer, { onResolutionSuccess: ({ key }) => events.push(key) }] });
+        await finalize();
+
+        expect(container.key).toBe(1);
+        expect(events).toEqual(['key', 'finalized']);
+    });
+
+    it('is notified of failures', async () => {
+        const failures: string[] = [];
+        const design = Design.bind('failing', async () => {
+            throw new Error('fails');
+        }).bind('dependent', async (injector: Injector<{ failing: number }>) => injector.failing);
+
+        await expect(
+            design.resolve({}, { observers: [{ onResolutionFailure: ({ key }) => failures.push(key) }] }),
+        ).rejects.toThrow('fails');
+        expect(failures).toEqual(['failing', 'dependent']);
+    });
+});
+
+describe('TimingReporter', () => {
+    const graph = {
+        nodes: ['config', 'db', 'server'],
+        edges: [
+            { from: 'db', to: 'config' },
+            { from: 'server', to: 'config' },
+            { from: 'server', to: 'db' },
+        ],
+        levels: [['server'], ['db'], ['config']],
+    };
+    let now = 0;
+    const reporter = new TimingReporter(() => now);
+    const times: { [key: string]: [number, number] } = { server: [0, 100], config: [5, 10], db: [10, 90] };
+    beforeAll(() => {
+        const entries = Object.entries(times);
+        entries.forEach(([key, [start]]) => {
+            now = start;
+            reporter.onResolutionStart({ key, path: [key] });
+        });
+        entries.forEach(([key, [, end]]) => {
+            now = end;
+            reporter.onResolutionSuccess({ key, path: [key] });
+        });
+    });
+
+    it('finds the critical path', () => {
+        expect(reporter.criticalPath(graph)).toEqual(['server', 'db', 'config']);
+    });
+
+    it('reports durations and the critical path', () => {
+        expect(reporter.report(graph)).toEqual(
+            [
+                'key     duration',
+                'server  100ms',
+                'db      80ms',
+                'config  5ms',
+                '',
+                'critical path: server -> db -> config (100ms)',
+            ].join('\n'),
+        );
+    });
+});
@@ -0,0 +1,117 @@
+import { DependencyGraph } from './graph';
+
+export interface ResolutionEvent {
+    key: string;
+    // Chain of keys through which the key has been accessed first.
+    path: string[];
+}
+
+export interface FinalizationEvent {
+    key: string;
+}
+
+/**
+ * Observes the lifecycle of each binding. Durations are in milliseconds.
+ * Errors thrown by handlers are ignored so that they never change the resolution or the finalization.
+ */
+export interface Observer {
+    onResolutionStart?(event: ResolutionEvent): void;
+    // Called for each attempt of the factory, which may run more than once for `retry`.
+    // Values given as requirements or taken over from the parent container have no factories.
+    onFactoryStart?(event: ResolutionEvent & { attempt: number }): void;
+    onResolutionSuccess?(event: ResolutionEvent & { duration: number }): void;
+    onResolutionFailure?(event: ResolutionEvent & { duration: number; error: unknown }): void;
+    onFinalizationStart?(event: FinalizationEvent): void;
+    // `error` is set when the finalizer fails.
+    onFinalizationEnd?(event: FinalizationEvent & { duration: number; error?: unknown }): void;
+}
+
+type Events = { [P in keyof Observer]-?: Parameters<NonNullable<Observer[P]>>[0] };
+
+export const notify = <E extends keyof Events>(observers: Observer[], name: E, event: Events[E]): void => {
+    observers.forEach(observer => {
+        const handler = observer[name] as ((event: Events[E]) => void) | undefined;
+        if (typeof handler !== 'undefined') {
+            try {
+                handler.call(observer, event);
+            } catch (e) {
+                // Observers only observe.
+            }
+        }
+    });
+};
+
+interface Timing {
+    start: number;
+    end: number;
+}
+
+/**
+ * Records how long each binding takes to resolve.
+ *
+ * i.g.)
+ * ```
+ * const reporter = new TimingReporter();
+ * const { graph } = await design.resolve({}, { observers: [reporter] });
+ * console.log(reporter.report(graph()));
+ * ```
+ */
+export class TimingReporter implements Observer {
+    private timings: Map<string, Timing> = new Map();
+    private starts: Map<string, number> = new Map();
+
+    public constructor(private now: () => number = Date.now) {}
+
+    public onResolutionStart = ({ key }: ResolutionEvent) => {
+        this.starts.set(key, this.now());
+    };
+
+    public onResolutionSuccess = ({ key }: ResolutionEvent) => {
+        const start = this.starts.get(key);
+        if (typeof start !== 'undefined' && !this.timings.has(key)) {
+            this.timings.set(key, { start, end: this.now() });
+        }
+    };
+
+    /**
+     * Returns the chain of keys which determined when the resolution completed.
+     * It starts from the key resolved last, and follows the dependency resolved last.
+     */
+    public criticalPath = (graph: DependencyGraph): string[] => {
+        const latest = (keys: string[]): string | undefined =>
+            keys
+                .filter(key => this.timings.has(key))
+                .reduce<string | undefined>(
+                    (acc, key) => (typeof acc === 'undefined' || this.endOf(key) > this.endOf(acc) ? key : acc),
+                    undefined,
+                );
+        const go = (key: string | undefined, path: string[]): string[] =>
+            typeof key === 'undefined'
+                ? path
+                : go(latest(graph.edges.filter(({ from }) => from === key).map(({ to }) => to)), [...path, key]);
+        return go(latest(graph.nodes), []);
+    };
+
+    /**
+     * Returns a table of durations from the slowest binding, followed by the critical path.
+     */
+    public report = (graph: DependencyGraph): string => {
+        const rows = Array.from(this.timings)
+            .map(([key, { start, end }]): [string, number] => [key, end - start])
+            .sort(([, a], [, b]) => b - a);
+        const width = rows.reduce((acc, [key]) => Math.max(acc, key.length), 'key'.length);
+        const path = this.criticalPath(graph);
+        const total =
+            path.length === 0
+                ? 0
+                : this.endOf(path[0]) - Math.min(...path.map(key => (this.timings.get(key) as Timing).start));
+        return [
+            `${'key'.padEnd(width)}  duration`,
+            ...rows.map(([key, duration]) => `${key.padEnd(width)}  ${duration}ms`),
+            '',
+            `critical path: ${path.join(' -> ')} (${total}ms)`,
+        ].join('\n');
+    };
+
+    private endOf = (key: string): number => (this.timings.get(key) as Timing).end;
+}
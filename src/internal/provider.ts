@@ -0,0 +1,33 @@
+import { Injector } from './design';
+
+/**
+ * Resolves a value on each call. The same value is returned unless the binding is transient.
+ */
+export type Provider<V> = () => Promise<V>;
+
+export type Providers<T> = { [P in keyof T]: Provider<T[P]> };
+
+const providers: WeakMap<object, object> = new WeakMap();
+
+export const attachProviders = (injector: object, provider: object): void => {
+    providers.set(injector, provider);
+};
+
+/**
+ * Returns providers for the injector given to a factory.
+ * Calling a provider after the factory completes does not make a dependency, so that mutually referencing values can
+ * be built. Calling it while the factory is running makes a dependency as `injector[key]` does.
+ *
+ * i.g.)
+ * ```
+ * Design.bind('bus', async (injector: Injector<{ handlers: Handler[] }>) => new EventBus(await injector.handlers))
+ *   .bind('handlers', async (injector: Injector<{ bus: EventBus }>) => [new Handler(providerOf(injector).bus)]);
+ * ```
+ */
+export const providerOf = <T extends { [key: string]: any }>(injector: Injector<T>): Providers<T> => {
+    const provider = providers.get(injector);
+    if (typeof provider === 'undefined') {
+        throw new Error('provider is not found for the injector');
+    }
+    return provider as Providers<T>;
+};
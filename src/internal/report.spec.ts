@@ -0,0 +1,73 @@
+import { Design, Injector } from './design';
+import { providerOf } from './provider';
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+describe('report', () => {
+    const design = Design.bind('repository', async (injector: Injector<{ url: string }>) => ({
+        url: await injector.url,
+    }))
+        .bind('app', async injector => ({ repository: await injector.repository }))
+        .bind('legacy', async () => 'legacy');
+
+    it('lists bindings nobody depends on unless they are accessed from the container', async () => {
+        const result = await design.resolve({ url: 'db', extra: 1 } as { url: string });
+
+        expect(result.report().unused).toEqual(['app', 'legacy']);
+        expect(result.container.app.repository.url).toBe('db');
+        expect(result.report().unused).toEqual(['legacy']);
+        expect(result.report().unconsumedRequirements).toEqual(['extra']);
+    });
+
+    it('lists bindings which have not been accessed from the lazy container', async () => {
+        const { container, report } = design.resolveLazy({ url: 'db' });
+
+        await container.app;
+
+        expect(report().unused).toEqual(['legacy']);
+        expect(report().unconsumedRequirements).toEqual([]);
+    });
+
+    it('lists the slowest factories', async () => {
+        const { report } = await Design.bind('slow', () => sleep(50).then(() => 'slow'))
+            .bind('fast', () => 'fast')
+            .bind('slower', async injector => {
+                await sleep(100);
+                return `${await injector.slow}er`;
+            })
+            .resolve({});
+
+        const slowest = report({ slowest: 2 }).slowest;
+
+        expect(slowest.map(({ key }) => key)).toEqual(['slower', 'slow']);
+        expect(slowest[0].duration).toBeGreaterThanOrEqual(slowest[1].duration);
+    });
+
+    it('does not take values used by providers after factories as dependencies', async () => {
+        const { report } = await Design.bind('value', () => 1)
+            .bind('consumer', async (injector: Injector<{ value: number }>) => providerOf(injector).value)
+            .resolve({});
+
+        expect(report().unused).toEqual(['value', 'consumer']);
+    });
+
+    it('does not list branches which are not selected', async () => {
+        const { report } = await Design.select('profile', {
+            prod: Design.bind('mailer', () => 'smtp'),
+            test: Design.bind('mailer', () => 'fake'),
+        }).resolve({ profile: 'test' });
+
+        expect(report().unused).toEqual(['mailer']);
+    });
+
+    it('does not list values of the parent container for scopes', async () => {
+        const { createScope } = await design.resolve({ url: 'db' });
+        const scope = await createScope(
+            Design.bind('handler', async (injector: Injector<{ request: string }>) => await injector.request),
+            { request: 'GET', unused: true } as { request: string },
+        );
+
+        expect(scope.report().unused).toEqual(['handler']);
+        expect(scope.report().unconsumedRequirements).toEqual(['unused']);
+    });
+});
@@ -0,0 +1,58 @@
+import { DAG } from './dag';
+import { Definition, Underlying } from './design';
+
+export interface ReportOptions {
+    // Number of the slowest factories to list. Defaults to 5.
+    slowest?: number;
+}
+
+export interface FactoryDuration {
+    key: string;
+    // Milliseconds of the longest resolution of the key.
+    duration: number;
+}
+
+/**
+ * Usage of bindings recorded by a container, to find dead wiring.
+ * NOTE: Values taken by providers after their factories complete are not recorded as dependencies.
+ */
+export interface UsageReport {
+    // Bound keys which no binding depends on and which have not been accessed from the container.
+    unused: string[];
+    // Requirements which no binding depends on.
+    unconsumedRequirements: string[];
+    // Keys whose factories took the longest, from the slowest.
+    slowest: FactoryDuration[];
+}
+
+export interface Usage<T extends Definition> {
+    underlying: Underlying<T>;
+    dag: DAG<keyof T>;
+    // Keys accessed from the container.
+    accessed: Set<keyof T>;
+    // Milliseconds of the longest resolution for each key.
+    durations: Map<keyof T, number>;
+}
+
+export const buildReport = <T extends Definition>(usage: Usage<T>, options: ReportOptions = {}): UsageReport => {
+    const { underlying, dag, accessed, durations } = usage;
+    const { slowest = 5 } = options;
+    const dependedOn = new Set(dag.edges().map(([, to]) => to));
+    const isProvided = (key: keyof T): boolean => typeof underlying[key] !== 'undefined' && !!underlying[key].provided;
+    // Values of the parent container are neither bindings nor requirements of a scope.
+    const isBound = (key: keyof T): boolean =>
+        typeof underlying[key] === 'undefined' || !(underlying[key].provided || underlying[key].inherited);
+    const keys = Object.keys(underlying) as (keyof T & string)[];
+    return {
+        // Branches which are not selected are not dead.
+        unused: keys.filter(
+            key => isBound(key) && !underlying[key].conditional && !dependedOn.has(key) && !accessed.has(key),
+        ),
+        unconsumedRequirements: keys.filter(key => isProvided(key) && !dependedOn.has(key)),
+        slowest: Array.from(durations)
+            .filter(([key]) => isBound(key))
+            .sort(([, a], [, b]) => b - a)
+            .slice(0, slowest)
+            .map(([key, duration]) => ({ key: key.toString(), duration })),
+    };
+};
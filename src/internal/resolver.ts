@@ -1,30 +1,109 @@
+import { attachSignal, withTimeout } from './cancellation';
 import { DAG } from './dag';
-import { Container, Result, Definition, PromisesHandler, Underlying } from './design';
+import { FinalizationError, FinalizationFailure, ResolutionError, TimeoutError } from './errors';
+import { buildGraph } from './graph';
+import { notify, Observer } from './observer';
+import { attachProviders, Providers } from './provider';
+import { buildReport } from './report';
+import { retry } from './retry';
+import {
+    Container,
+    Design,
+    Family,
+    Inherited,
+    LazyContainer,
+    LazyResult,
+    Result,
+    Definition,
+    FinalizeOptions,
+    PromisesHandler,
+    Requirements,
+    Resource,
+    ResolveOptions,
+    Underlying,
+} from './design';
 
 type Injector<T extends Definition> = { [P in keyof T]: Promise<Value<T, P>> };
 type WrappedInjector<T extends Definition> = { [P in keyof T]: (dependedBy?: keyof T) => Promise<Value<T, P>> };
 type Value<T extends Definition, K extends keyof T> = T[K]['value'];
 
-const bindInjector = <T extends Definition>(wrapped: WrappedInjector<T>, dependedBy: keyof T): Injector<T> => {
+interface Context<T extends Definition> {
+    underlying: Underlying<T>;
+    dag: DAG<keyof T>;
+    wrappedInjector: WrappedInjector<T>;
+    // Values which have been built so far, for each key.
+    instances: Map<keyof T, unknown[]>;
+    // Every resolution which has been started so far.
+    resolutions: Promise<unknown>[];
+    // Chain of keys through which each key has been accessed first.
+    paths: Map<keyof T, (keyof T)[]>;
+    // Resolutions in progress, with their keys.
+    pending: Map<AbortController, keyof T>;
+    // True once the resolution has failed. Values built after that are finalized immediately.
+    closed: boolean;
+    // True once finalize has been called.
+    finalized: boolean;
+    observers: Observer[];
+    // Resources of family members, for their nodes.
+    members: Map<keyof T, Resource<any, any>>;
+    // Keys accessed from the container.
+    accessed: Set<keyof T>;
+    // Milliseconds of the longest resolution for each key.
+    durations: Map<keyof T, number>;
+}
+
+const resourceOf = <T extends Definition>(context: Context<T>, key: keyof T): Resource<any, any> =>
+    context.underlying[key] || context.members.get(key);
+
+/**
+ * Returns keys to resolve for each name which the factory of the key sees.
+ */
+const targetsOf = <T extends Definition>(context: Context<T>, key: keyof T): { [name: string]: keyof T } => {
+    const targets: { [name: string]: keyof T } = {};
+    for (const name in context.wrappedInjector) {
+        targets[name] = name;
+    }
+    return { ...targets, ...resourceOf(context, key).aliases };
+};
+
+const bindInjector = <T extends Definition>(context: Context<T>, dependedBy: keyof T): Injector<T> => {
     const injector: Injector<T> = {} as any;
-    for (const key in wrapped) {
-        Object.defineProperty(injector, key, {
+    const targets = targetsOf(context, dependedBy);
+    for (const name in targets) {
+        Object.defineProperty(injector, name, {
             get: function () {
-                return wrapped[key](dependedBy);
+                return context.wrappedInjector[targets[name]](dependedBy);
             },
         });
     }
     return injector;
 };
 
+/**
+ * Providers make a dependency only while the factory of `dependedBy` is running.
+ */
+const bindProviders = <T extends Definition>(
+    context: Context<T>,
+    dependedBy: keyof T,
+    isRunning: () => boolean,
+): Providers<Container<T>> => {
+    const providers: Providers<Container<T>> = {} as any;
+    const targets = targetsOf(context, dependedBy);
+    for (const name in targets) {
+        (providers as any)[name] = async () => {
+            if (context.closed || context.finalized) {
+                throw new Error('already finalized');
+            }
+            return context.wrappedInjector[targets[name]](isRunning() ? dependedBy : undefined);
+        };
+    }
+    return providers;
+};
+
 const wrapResolve =
-    <T extends Definition, K extends keyof T>(context: {
-        underlying: Underlying<T>;
-        dag: DAG<keyof T>;
-        wrappedInjector: WrappedInjector<T>;
-    }) =>
+    <T extends Definition, K extends keyof T>(context: Context<T>) =>
     (key: K) => {
-        const { underlying, dag, wrappedInjector } = context;
+        const { dag, instances, resolutions, paths, pending, observers } = context;
         let resolved: Promise<Value<T, typeof key>>;
         return (dependedBy?: keyof T) => {
             if (typeof dependedBy === 'undefined') {
@@ -32,74 +111,390 @@ const wrapResolve =
             } else {
                 dag.addEdge(dependedBy, key);
             }
-            if (typeof resolved === 'undefined') {
-                const injector = bindInjector(wrappedInjector, key);
-                resolved = underlying[key].resolve(injector as any).catch(e => {
-                    if (e.hasOwnProperty('__root_error__')) {
-                        throw e;
+            if (!paths.has(key)) {
+                paths.set(key, [...(typeof dependedBy === 'undefined' ? [] : paths.get(dependedBy) || []), key]);
+            }
+            const resource = resourceOf(context, key);
+            // Transient bindings are resolved for each access.
+            if (typeof resolved === 'undefined' || resource.transient) {
+                const { resolve, finalize, timeout, retry: retryOptions, family } = resource;
+                const injector = bindInjector(context, key);
+                const controller = new AbortController();
+                let running = true;
+                attachSignal(injector, controller.signal);
+                attachProviders(
+                    injector,
+                    bindProviders(context, key, () => running),
+                );
+                pending.set(controller, key);
+
+                const event = { key: key.toString(), path: (paths.get(key) || [key]).map(k => k.toString()) };
+                const start = Date.now();
+                let timedOut = false;
+                notify(observers, 'onResolutionStart', event);
+                let attempt = 0;
+                const build = () => {
+                    if (typeof family !== 'undefined') {
+                        return Promise.resolve(bindFamily(context, key, family));
+                    }
+                    if (!resource.provided && !resource.inherited) {
+                        notify(observers, 'onFactoryStart', { ...event, attempt: ++attempt });
+                    }
+                    return resolve(injector);
+                };
+                const built = retry(event.key, build, retryOptions, controller.signal).then(value => {
+                    running = false;
+                    if (timedOut || context.closed) {
+                        // Nobody can finalize the value later.
+                        finalize(value).catch(() => undefined);
                     } else {
-                        const rootError = new Error(`failed to resolve "${key.toString()}" because: ${e.message}`);
-                        Object.assign(rootError, { __root_error__: true });
-                        throw rootError;
+                        const duration = Date.now() - start;
+                        instances.set(key, [...(instances.get(key) || []), value]);
+                        context.durations.set(key, Math.max(duration, context.durations.get(key) || 0));
+                        notify(observers, 'onResolutionSuccess', { ...event, duration });
                     }
+                    return value;
                 });
+                resolved = withTimeout(built, timeout, () => {
+                    timedOut = true;
+                    controller.abort();
+                    return new TimeoutError(timeout as number);
+                })
+                    .catch(e => {
+                        notify(observers, 'onResolutionFailure', { ...event, duration: Date.now() - start, error: e });
+                        if (e instanceof ResolutionError) {
+                            throw e;
+                        } else {
+                            throw new ResolutionError(event.key, event.path, e);
+                        }
+                    })
+                    .finally(() => {
+                        pending.delete(controller);
+                    });
+                resolutions.push(resolved);
             }
             return resolved;
         };
     };
 
-const buildContainer = async <T extends Definition>(injector: WrappedInjector<T>): Promise<Container<T>> => {
-    const container: Container<T> = {} as any;
+/**
+ * Returns the node of the family member for the parameter.
+ * Strings which read as numbers are quoted so that 1 and '1' make distinct members.
+ */
+const memberOf = (key: PropertyKey, param: string | number): string =>
+    `${key.toString()}(${typeof param === 'string' && String(Number(param)) === param ? `'${param}'` : param})`;
 
-    const promises: Promise<any>[] = [];
-    for (const key in injector) {
-        promises.push(
-            injector[key]().then(value => {
-                container[key] = value;
-            }),
-        );
-    }
-    await Promise.all(promises);
-    return container;
+/**
+ * Builds members on demand as nodes depended on by the family.
+ */
+const bindFamily = <T extends Definition>(
+    context: Context<T>,
+    key: keyof T,
+    family: (param: any) => Resource<any, any>,
+): Family<string | number, unknown> => {
+    const members = new Map<string | number, { node: keyof T; resolved: Promise<unknown> }>();
+    const assertOpen = () => {
+        if (context.closed || context.finalized) {
+            throw new Error('already finalized');
+        }
+    };
+    const get = async (param: string | number): Promise<unknown> => {
+        assertOpen();
+        const member = members.get(param);
+        if (typeof member !== 'undefined') {
+            return member.resolved;
+        }
+        const node = memberOf(key, param) as keyof T;
+        // Members see the same names as the family.
+        context.members.set(node, { ...family(param), aliases: resourceOf(context, key).aliases });
+        const resolved = wrapResolve(context)(node)(key);
+        members.set(param, { node, resolved });
+        return resolved;
+    };
+    const evict = async (param: string | number): Promise<void> => {
+        assertOpen();
+        const member = members.get(param);
+        if (typeof member === 'undefined') {
+            return;
+        }
+        members.delete(param);
+        await member.resolved.catch(() => undefined);
+        const values = context.instances.get(member.node) || [];
+        context.instances.delete(member.node);
+        await Promise.all(values.map(value => resourceOf(context, member.node).finalize(value)));
+    };
+    return { get, evict };
+};
+
+// Rejects on the first failure. Values built after that are finalized as the context is closed by rollback.
+const buildContainer = async <T extends Definition>(injector: WrappedInjector<T>, keys: (keyof T)[]): Promise<void> => {
+    await Promise.all(keys.map(key => injector[key]()));
 };
 
 const defaultPromisesHandler: PromisesHandler = async ps => {
     await Promise.all(ps);
 };
 
-const buildFinalize = <T extends Definition>(context: {
-    container: Container<T>;
-    dag: DAG<keyof T>;
-    underlying: Underlying<T>;
-}) => {
-    let finalized = false;
-    return async (promisesHandler: PromisesHandler = defaultPromisesHandler): Promise<void> => {
-        if (finalized) {
+const settle = (ps: Promise<unknown>[]): Promise<void> =>
+    Promise.all(ps.map(p => p.catch(() => undefined))).then(() => undefined);
+
+/**
+ * Finalizes each key once every key depending on it has been finalized, whether it succeeds or not.
+ * promisesHandler receives a promise for each key.
+ *
+ * Returns failures of finalizers even if they are handled by promisesHandler.
+ * Throws FinalizationError if promisesHandler rejects due to them.
+ */
+const finalizeAll = async <T extends Definition>(
+    context: Context<T>,
+    promisesHandler: PromisesHandler,
+    timeout?: number,
+): Promise<FinalizationFailure[]> => {
+    const { dag, instances, observers } = context;
+    const failures: FinalizationFailure[] = [];
+    const deadline = typeof timeout === 'undefined' ? undefined : Date.now() + timeout;
+    const finalize = async (key: keyof T, instance: unknown): Promise<void> => {
+        const event = { key: key.toString() };
+        const start = Date.now();
+        notify(observers, 'onFinalizationStart', event);
+        try {
+            await withTimeout(
+                resourceOf(context, key).finalize(instance),
+                typeof deadline === 'undefined' ? undefined : Math.max(0, deadline - start),
+                () => new TimeoutError(timeout as number),
+            );
+            notify(observers, 'onFinalizationEnd', { ...event, duration: Date.now() - start });
+        } catch (error) {
+            failures.push({ key: event.key, error });
+            notify(observers, 'onFinalizationEnd', { ...event, duration: Date.now() - start, error });
+            throw error;
+        }
+    };
+
+    const dependents = dag
+        .edges()
+        .reduce((acc, [from, to]) => acc.set(to, [...(acc.get(to) || []), from]), new Map<keyof T, (keyof T)[]>());
+    const finalized = new Map<keyof T, Promise<void>>();
+    const finalizeNode = (key: keyof T): Promise<void> => {
+        const memo = finalized.get(key);
+        if (typeof memo !== 'undefined') {
+            return memo;
+        }
+        const promise = settle((dependents.get(key) || []).map(finalizeNode)).then(async () => {
+            const ps = (instances.get(key) || []).map(instance => finalize(key, instance));
+            await settle(ps);
+            // Rejects with the first failure, if any.
+            await Promise.all(ps);
+        });
+        finalized.set(key, promise);
+        return promise;
+    };
+
+    const ps = dag.nodes().map(finalizeNode);
+    try {
+        await promisesHandler(ps);
+    } catch (e) {
+        await settle(ps);
+        throw failures.length > 0 ? new FinalizationError(failures) : e;
+    }
+    return failures;
+};
+
+const buildFinalize = <T extends Definition>(context: Context<T>, defaultOptions: FinalizeOptions) => {
+    const finalize = async (
+        promisesHandler: PromisesHandler = defaultPromisesHandler,
+        options: FinalizeOptions = defaultOptions,
+    ): Promise<void> => {
+        if (context.finalized) {
             throw new Error('already finalized');
         }
-        finalized = true;
+        context.finalized = true;
 
-        const { container, dag, underlying } = context;
-        await dag.dependenciesForEachDepth().reduce(async (acc, keys) => {
-            await acc;
-            await promisesHandler(keys.map(key => underlying[key].finalize(container[key])));
-        }, Promise.resolve());
+        // Resolutions may still be in progress when the container is lazy.
+        await Promise.all(context.resolutions.map(resolution => resolution.catch(() => undefined)));
+        await finalizeAll(context, promisesHandler, options.timeout);
     };
+    // Disposing is a no-op once finalized, as `await using` disposes regardless of `finalize`.
+    const asyncDispose = (): Promise<void> => (context.finalized ? Promise.resolve() : finalize());
+    return { finalize, isFinalized: () => context.finalized, asyncDispose };
 };
 
-export async function resolve<T extends Definition>(underlying: Underlying<T>): Promise<Result<T>> {
-    const dag = new DAG<keyof T>();
-    const wrappedInjector: WrappedInjector<T> = {} as any;
-    const resolveFor = wrapResolve({
-        underlying,
-        dag,
-        wrappedInjector,
+/**
+ * Finalizes resources built before the resolution failed, and attaches errors thrown by their finalizers.
+ */
+const rollback = async <T extends Definition>(error: unknown, context: Context<T>): Promise<never> => {
+    context.closed = true;
+    context.pending.forEach((_, controller) => controller.abort());
+    const failures = await finalizeAll(context, settle);
+    if (failures.length > 0 && error instanceof Error) {
+        // Not only ResolutionError, but also TimeoutError of the whole resolution or any other error carries them.
+        (error as Error & { finalizationError?: FinalizationError }).finalizationError = new FinalizationError(
+            failures,
+        );
+    }
+    throw error;
+};
+
+/**
+ * Provides given values as they are, without finalizing them.
+ */
+const inherit = <T extends Definition>(
+    container: Container<T>,
+    flags: Pick<Resource<any, any>, 'provided' | 'inherited'>,
+): Underlying<Inherited<T>> => {
+    const underlying: Underlying<Inherited<T>> = {} as any;
+    for (const key in container) {
+        underlying[key] = {
+            resolve: () => Promise.resolve(container[key]),
+            finalize: () => Promise.resolve(),
+            ...flags,
+        };
+    }
+    return underlying;
+};
+
+/**
+ * Builds a container from values built so far. Transient bindings take their first values.
+ */
+const toContainer = <T extends Definition>(context: Context<T>): Container<T> => {
+    const container: Container<T> = {} as any;
+    context.instances.forEach(([instance], key) => {
+        if (!context.members.has(key) && !context.underlying[key].hidden) {
+            container[key] = instance as Value<T, typeof key>;
+        }
     });
+    return container;
+};
+
+/**
+ * Returns a view of the container which records accessed keys.
+ */
+const recordAccess = <T extends Definition>(context: Context<T>, values: Container<T>): Container<T> => {
+    const container: Container<T> = {} as any;
+    for (const key in values) {
+        Object.defineProperty(container, key, {
+            enumerable: true,
+            get: function () {
+                context.accessed.add(key);
+                return values[key];
+            },
+        });
+    }
+    return container;
+};
+
+/**
+ * Blames the deepest resolution in progress, which is most likely to block the others.
+ */
+const timeoutError = <T extends Definition>(context: Context<T>, timeout: number): Error => {
+    const { pending, paths } = context;
+    const pathOf = (key: keyof T) => paths.get(key) || [key];
+    const path = Array.from(pending.values())
+        .map(pathOf)
+        .reduce<(keyof T)[]>((acc, path) => (path.length > acc.length ? path : acc), []);
+    return path.length === 0
+        ? new TimeoutError(timeout)
+        : new ResolutionError(
+              path[path.length - 1].toString(),
+              path.map(k => k.toString()),
+              new TimeoutError(timeout),
+          );
+};
+
+const buildContext = <T extends Definition>(underlying: Underlying<T>, options: ResolveOptions): Context<T> => {
+    const context: Context<T> = {
+        underlying,
+        dag: new DAG<keyof T>(),
+        wrappedInjector: {} as any,
+        instances: new Map(),
+        resolutions: [],
+        paths: new Map(),
+        pending: new Map(),
+        closed: false,
+        finalized: false,
+        observers: options.observers || [],
+        members: new Map(),
+        accessed: new Set(),
+        durations: new Map(),
+    };
+    const resolveFor = wrapResolve(context);
     for (const key in underlying) {
-        wrappedInjector[key] = resolveFor(key);
+        context.wrappedInjector[key] = resolveFor(key);
     }
+    return context;
+};
 
-    const container = await buildContainer(wrappedInjector);
-    const finalize = buildFinalize({ container, dag, underlying });
-    return { container, finalize };
+export async function resolve<T extends Definition>(
+    underlying: Underlying<T>,
+    options: ResolveOptions = {},
+    keys?: (keyof T)[],
+): Promise<Result<T>> {
+    const context = buildContext(underlying, options);
+    try {
+        // Conditional bindings are resolved only when selected.
+        const built = keys || Object.keys(underlying).filter(key => !underlying[key].conditional);
+        await withTimeout(buildContainer(context.wrappedInjector, built), options.timeout, () =>
+            timeoutError(context, options.timeout as number),
+        );
+    } catch (e) {
+        return rollback(e, context);
+    }
+    const { finalize, isFinalized, asyncDispose } = buildFinalize(context, { timeout: options.finalizeTimeout });
+    const createScope = <U extends Definition>(
+        design: Design<U>,
+        requirements: Requirements<Inherited<T> & U>,
+    ): Promise<Result<Inherited<T> & U>> => {
+        if (isFinalized()) {
+            return Promise.reject(new Error('already finalized'));
+        }
+        return resolve(
+            {
+                ...inherit(values, { inherited: true }),
+                ...design.design,
+                ...inherit(requirements as any, { provided: true }),
+            } as any,
+            options,
+        );
+    };
+    const values = toContainer(context);
+    return {
+        container: recordAccess(context, values),
+        finalize,
+        createScope,
+        graph: () => buildGraph(context.dag),
+        report: reportOptions => buildReport(context, reportOptions),
+        [Symbol.asyncDispose]: asyncDispose,
+    };
+}
+
+export function resolveLazy<T extends Definition>(
+    underlying: Underlying<T>,
+    options: ResolveOptions = {},
+): LazyResult<T> {
+    const context = buildContext(underlying, options);
+    const { finalize, isFinalized, asyncDispose } = buildFinalize(context, { timeout: options.finalizeTimeout });
+
+    const container: LazyContainer<T> = {} as any;
+    for (const key in underlying) {
+        if (underlying[key].hidden) {
+            continue;
+        }
+        Object.defineProperty(container, key, {
+            enumerable: true,
+            get: function () {
+                if (isFinalized()) {
+                    return Promise.reject(new Error('already finalized'));
+                }
+                context.accessed.add(key);
+                return context.wrappedInjector[key]();
+            },
+        });
+    }
+    return {
+        container,
+        finalize,
+        graph: () => buildGraph(context.dag),
+        report: reportOptions => buildReport(context, reportOptions),
+        [Symbol.asyncDispose]: asyncDispose,
+    };
 }
@@ -0,0 +1,18 @@
+import { backoff } from './retry';
+
+describe('backoff', () => {
+    it('doubles the delay for each attempt', () => {
+        const options = { attempts: 5, delay: 100, jitter: 0 };
+        expect([1, 2, 3, 4].map(attempt => backoff(options, attempt))).toEqual([100, 200, 400, 800]);
+    });
+
+    it('limits the delay by maxDelay', () => {
+        expect(backoff({ attempts: 5, delay: 100, maxDelay: 300, jitter: 0 }, 4)).toBe(300);
+    });
+
+    it('randomizes the delay by jitter', () => {
+        const options = { attempts: 5, delay: 100, jitter: 0.5 };
+        expect(backoff(options, 2, () => 0)).toBe(200);
+        expect(backoff(options, 2, () => 1)).toBe(100);
+    });
+});
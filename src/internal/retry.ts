@@ -0,0 +1,77 @@
+import { CyclicDependencyError, ResolutionError } from './errors';
+
+export interface FailedAttempt {
+    key: string;
+    // Starts from 1.
+    attempt: number;
+    error: unknown;
+}
+
+export interface RetryOptions {
+    // Number of attempts including the first one.
+    attempts: number;
+    // Milliseconds to wait before the second attempt, which is doubled for each attempt. Defaults to 100.
+    delay?: number;
+    // Upper bound of the delay in milliseconds.
+    maxDelay?: number;
+    // Ratio of the delay to randomize, from 0 to 1. Defaults to 0.5.
+    jitter?: number;
+    // Decides whether to retry for the error. Failures of dependencies and cyclic dependencies are never retried.
+    retryable?: (error: unknown) => boolean;
+    onFailedAttempt?: (failed: FailedAttempt) => void;
+}
+
+// Wakes up early when the signal is aborted.
+const sleep = (ms: number, signal: AbortSignal) =>
+    new Promise<void>(resolve => {
+        const wake = () => {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', wake);
+            resolve();
+        };
+        const timer = setTimeout(wake, ms);
+        signal.addEventListener('abort', wake);
+    });
+
+export const backoff = (options: RetryOptions, attempt: number, random: () => number = Math.random): number => {
+    const { delay = 100, maxDelay = Infinity, jitter = 0.5 } = options;
+    const base = Math.min(delay * Math.pow(2, attempt - 1), maxDelay);
+    return base * (1 - jitter * random());
+};
+
+/**
+ * Calls f until it succeeds, the error is not retryable, the attempts run out or the signal is aborted.
+ */
+export const retry = async <V>(
+    key: string,
+    f: () => Promise<V>,
+    options: RetryOptions | undefined,
+    signal: AbortSignal,
+): Promise<V> => {
+    const { attempts = 1, retryable = () => true, onFailedAttempt } = options || {};
+    const go = async (attempt: number): Promise<V> => {
+        try {
+            return await f();
+        } catch (error) {
+            if (typeof onFailedAttempt !== 'undefined') {
+                onFailedAttempt({ key, attempt, error });
+            }
+            const retries =
+                attempt < attempts &&
+                !signal.aborted &&
+                !(error instanceof ResolutionError) &&
+                !(error instanceof CyclicDependencyError) &&
+                retryable(error);
+            if (!retries) {
+                throw error;
+            }
+            await sleep(backoff(options as RetryOptions, attempt), signal);
+            // The signal may be aborted while waiting, i.g. by the timeout.
+            if (signal.aborted) {
+                throw error;
+            }
+            return go(attempt + 1);
+        }
+    };
+    return go(1);
+};
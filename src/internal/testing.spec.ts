@@ -0,0 +1,88 @@
+import { Design, Injector } from './design';
+import { createTestContainer, finalizeTestContainers } from './testing';
+
+describe('createTestContainer', () => {
+    const finalized: string[] = [];
+    const design = Design.bind(
+        'config',
+        async (injector: Injector<{ env: string }>) => ({ url: `db://${await injector.env}` }),
+        async () => {
+            finalized.push('config');
+        },
+    )
+        .bind('repository', async injector => ({ find: async () => `found in ${(await injector.config).url}` }))
+        .bindTransient('requestId', () => Math.random())
+        .bind('unused', () => 'unused');
+
+    it('replaces bindings by values or functions', async () => {
+        const { container } = await createTestContainer(design, {
+            env: 'test',
+            repository: { find: async () => 'fake' },
+            unused: async injector => `${(await injector.config).url} unused`,
+        });
+        expect(await container.repository.find()).toBe('fake');
+        expect(container.unused).toBe('db://test unused');
+    });
+
+    it('finalizes the container created by the previous test', () => {
+        expect(finalized).toEqual(['config']);
+    });
+
+    it('records resolved bindings and runs of each factory', async () => {
+        const { container, calls } = await createTestContainer(
+            design.bind('user', async (injector: Injector<{ requestId: number }>) => [
+                await injector.requestId,
+                await injector.requestId,
+            ]),
+            { env: 'test' },
+        );
+        expect(container.user).toHaveLength(2);
+        expect(calls.resolved().sort()).toEqual(['config', 'repository', 'requestId', 'unused', 'user']);
+        expect(calls.count('config')).toBe(1);
+        expect(calls.count('requestId')).toBe(3);
+        expect(calls.count('unknown')).toBe(0);
+
+        await finalizeTestContainers();
+        expect(finalized).toEqual(['config', 'config']);
+    });
+
+    it('counts each attempt of retried factories', async () => {
+        let attempts = 0;
+        const { calls } = await createTestContainer(
+            Design.bind(
+                'flaky',
+                async () => {
+                    attempts += 1;
+                    if (attempts < 3) {
+                        throw new Error('flaky');
+                    }
+                    return attempts;
+                },
+                undefined,
+                { retry: { attempts: 3, delay: 0 } },
+            ),
+            {},
+        );
+        expect(calls.count('flaky')).toBe(3);
+    });
+
+    it('does not count values taken over by scopes', async () => {
+        const { createScope, calls } = await createTestContainer(design, { env: 'test' });
+        await createScope(
+            Design.bind('request', async (injector: Injector<{ config: { url: string } }>) => injector.config),
+            {},
+        );
+        expect(calls.count('config')).toBe(1);
+        expect(calls.count('env')).toBe(0);
+        expect(calls.count('request')).toBe(1);
+        expect(calls.resolved()).not.toContain('env');
+    });
+
+    it('does not finalize containers already finalized', async () => {
+        const { finalize } = await createTestContainer(
+            Design.bind('key', () => 1),
+            {},
+        );
+        await finalize();
+    });
+});
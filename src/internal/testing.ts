@@ -0,0 +1,93 @@
+import { Container, Definition, Design, Requirements, ResolveOptions, Result, ValueOrResolvable } from './design';
+import { Observer, ResolutionEvent } from './observer';
+
+/**
+ * Records which bindings have been resolved, and how many times each factory has run.
+ * Requirements and values taken over from the parent container are not recorded since they have no factories.
+ */
+export class CallRecorder implements Observer {
+    private runs: Map<string, number> = new Map();
+    private succeeded: Set<string> = new Set();
+
+    public onFactoryStart = ({ key }: ResolutionEvent) => {
+        this.runs.set(key, this.count(key) + 1);
+    };
+
+    public onResolutionSuccess = ({ key }: ResolutionEvent) => {
+        if (this.runs.has(key)) {
+            this.succeeded.add(key);
+        }
+    };
+
+    // Keys whose factories resolved successfully, in the order of their first resolution.
+    public resolved = (): string[] => Array.from(this.succeeded);
+
+    // Number of times the factory for the key has run, including failures and retries.
+    public count = (key: string): number => this.runs.get(key) || 0;
+}
+
+/**
+ * Values or functions to resolve them, which replace bindings of the design.
+ */
+export type Overrides<T extends Definition> = { [P in keyof T]?: ValueOrResolvable<T[P]['value'], Container<T>> };
+
+export interface TestContainer<T extends Definition> extends Result<T> {
+    calls: CallRecorder;
+}
+
+// Declared here not to depend on a specific test framework.
+declare const afterEach: ((f: () => Promise<void>) => void) | undefined;
+
+let created: Result<any>[] = [];
+
+/**
+ * Finalizes every container created by createTestContainer which has not been finalized yet.
+ * It is called after each test automatically if `afterEach` is available globally, as in Jest.
+ */
+export const finalizeTestContainers = async (): Promise<void> => {
+    const results = created;
+    created = [];
+    await Promise.all(results.map(result => result[Symbol.asyncDispose]()));
+};
+
+if (typeof afterEach === 'function') {
+    afterEach(finalizeTestContainers);
+}
+
+/**
+ * Resolves the design for a test, replacing bindings by the overrides.
+ * The overrides also take the requirements of the design.
+ *
+ * i.g.)
+ * ```
+ * const { container, calls } = await createTestContainer(appDesign, {
+ *   config: testConfig,
+ *   userRepository: new FakeUserRepository(),
+ * });
+ * expect(calls.count('userRepository')).toBe(1);
+ * ```
+ */
+export const createTestContainer = async <T extends Definition>(
+    design: Design<T>,
+    // Pick flattens requirements so that functions in overrides are typed contextually.
+    overrides: Overrides<T> & Pick<Requirements<T>, keyof Requirements<T>>,
+    options: ResolveOptions = {},
+): Promise<TestContainer<T>> => {
+    const calls = new CallRecorder();
+    let overridden: Design<any> = design;
+    const requirements: { [key: string]: unknown } = {};
+    for (const key in overrides) {
+        const override = (overrides as { [key: string]: unknown })[key];
+        if (key in design.design) {
+            overridden = overridden.override(key, override);
+        } else {
+            requirements[key] = override;
+        }
+    }
+    const result = await overridden.resolve(requirements, {
+        ...options,
+        observers: [...(options.observers || []), calls],
+    });
+    created.push(result);
+    return Object.assign(result, { calls });
+};
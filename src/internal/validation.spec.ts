@@ -0,0 +1,88 @@
+import { Design } from './design';
+import { inject, injectClass } from './helper';
+import { declareDependencies } from './metadata';
+
+class Repository {
+    public constructor(public readonly params: { url: string }) {}
+}
+
+describe('validate', () => {
+    it('reports keys neither bound nor required without calling factories', () => {
+        const factory = jest.fn(async (params: { url: string; token: string }) => params.url + params.token);
+        const design = Design.bind('client', inject(factory, ['url', 'token'])).bind(
+            'repository',
+            injectClass(Repository, ['url']),
+        );
+
+        const report = design.validate({ url: 'db' });
+
+        expect(report.valid).toBe(false);
+        expect(report.missing).toEqual([{ key: 'token', dependedBy: ['client'] }]);
+        expect(factory).not.toHaveBeenCalled();
+        expect(design.validate({ url: 'db', token: 'secret' })).toEqual({
+            valid: true,
+            missing: [],
+            cycles: [],
+            collisions: [],
+            undeclared: [],
+        });
+    });
+
+    it('does not report optional dependencies as missing', () => {
+        const factory = async (params: { cache?: Map<string, string>; name: string }) =>
+            params.cache?.get(params.name) || params.name;
+        const design = Design.bind('service', inject(factory, ['cache', 'name'], ['cache']));
+
+        expect(design.validate({ name: 'name' })).toMatchObject({ valid: true, missing: [] });
+        expect(design.validate({}).missing).toEqual([{ key: 'name', dependedBy: ['service'] }]);
+    });
+
+    it('reports cycles', () => {
+        const design = Design.bind(
+            'a',
+            inject(async (params: { b: string }) => params.b, ['b']),
+        ).bind(
+            'b',
+            inject(async (params: { a: string }) => params.a, ['a']),
+        );
+
+        expect(design.validate().cycles).toEqual([['b', 'a', 'b']]);
+    });
+
+    it('reports requirements which collide with bindings', () => {
+        const design = Design.bind('url', () => 'db').bind('repository', injectClass(Repository, ['url']));
+
+        expect(design.validate({ url: 'other' }).collisions).toEqual(['url']);
+    });
+
+    it('lists bindings without declared dependencies', () => {
+        const design = Design.bind('name', async () => 'world')
+            .bind(
+                'greeting',
+                declareDependencies(
+                    async (injector: { name: Promise<string> }) => `hello ${await injector.name}`,
+                    ['name'],
+                ),
+            )
+            .contribute(
+                'names',
+                inject(async (params: { name: string }) => params.name, ['name']),
+            )
+            .contribute('names', async () => 'another')
+            .override('name', 'override');
+
+        const report = design.validate();
+
+        expect(report.valid).toBe(true);
+        expect(report.undeclared).toEqual(['names']);
+    });
+
+    it('checks private keys of modules by their names', () => {
+        const module = Design.module(
+            Design.bind('url', () => 'db').bind('repository', injectClass(Repository, ['url', 'token' as 'url'])),
+            { exports: ['repository'] },
+        );
+
+        expect(module.validate().missing).toEqual([{ key: 'token', dependedBy: ['repository'] }]);
+    });
+});
@@ -0,0 +1,68 @@
+import { DAG } from './dag';
+import { Definition, Underlying } from './design';
+import { CyclicDependencyError } from './errors';
+
+export interface MissingDependency {
+    key: string;
+    // Keys whose bindings depend on the missing key.
+    dependedBy: string[];
+}
+
+export interface ValidationReport {
+    // True if nothing is missing, cyclic or colliding.
+    valid: boolean;
+    // Keys depended on, which are neither bound nor required. Keys only depended on as optional are not missing.
+    missing: MissingDependency[];
+    // Cycles of keys, each of which starts and ends with the same key.
+    cycles: string[][];
+    // Keys given as requirements, which replace their bindings.
+    collisions: string[];
+    // Keys not checked since their dependencies are not declared.
+    undeclared: string[];
+}
+
+export const validate = <T extends Definition>(
+    underlying: Underlying<T>,
+    requirements: { [key: string]: unknown },
+): ValidationReport => {
+    const design = underlying as Underlying<Definition>;
+    const dag = new DAG<string>();
+    const missing = new Map<string, string[]>();
+    const cycles: string[][] = [];
+    const undeclared: string[] = [];
+
+    Object.keys(design).forEach(key => {
+        const { dependencies, optionalDependencies = [], aliases = {} } = design[key];
+        if (typeof dependencies === 'undefined') {
+            undeclared.push(key);
+            return;
+        }
+        dag.addNode(key);
+        dependencies.forEach(name => {
+            const target = aliases[name] || name;
+            if (!(target in design)) {
+                if (!(target in requirements) && !optionalDependencies.includes(name)) {
+                    missing.set(target, [...(missing.get(target) || []), key]);
+                }
+                return;
+            }
+            try {
+                dag.addEdge(key, target);
+            } catch (e) {
+                if (!(e instanceof CyclicDependencyError)) {
+                    throw e;
+                }
+                cycles.push(e.cycle);
+            }
+        });
+    });
+
+    const collisions = Object.keys(requirements).filter(key => key in design);
+    return {
+        valid: missing.size === 0 && cycles.length === 0 && collisions.length === 0,
+        missing: Array.from(missing).map(([key, dependedBy]) => ({ key, dependedBy })),
+        cycles,
+        collisions,
+        undeclared,
+    };
+};
@@ -0,0 +1,7 @@
+export {
+    CallRecorder,
+    createTestContainer,
+    finalizeTestContainers,
+    Overrides,
+    TestContainer,
+} from './internal/testing';
@@ -1,5 +1,6 @@
-import { Design, Injector } from '../src';
-import { expectError } from 'tsd';
+import { declareDependencies, Design, Injector, UsageReport, ValidationReport } from '../src';
+import { expectError, expectType } from 'tsd';
+import { createTestContainer } from '../src/testing';
 
 type HasKey0<T> = { key0: T };
 
@@ -33,3 +34,181 @@ const zeroDependencies = Design.bind('zero', () => 3);
 expectError(Design.bind('needsA', async (injector: Injector<{ a: number }>) => await injector.a)
     .merge(zeroDependencies)
     .resolve({})); // zero dependencies
+
+const partialDesign = baseDesign.bind('independent', () => 'independent');
+const resolvesOnlyIndependent = partialDesign.resolveOnly(['independent'], {});
+expectError(partialDesign.resolveOnly(['key1'], {})); // insufficient requirements for picked keys
+expectError(partialDesign.resolveOnly(['unknown'], {})); // unknown key
+const implicitDesign = baseDesign.bind('implicit', async injector => injector.key1);
+expectError(implicitDesign.resolveOnly(['implicit'], {})); // implicitly typed injector may depend on any key
+implicitDesign.resolveOnly(['implicit'], { key0: 'string' });
+expectError(baseDesign.bindTransient('transient', async injector => injector.key1).resolveOnly(['transient'], {})); // same for the other bindings
+expectError(baseDesign.bind('decorated', () => 1).decorate('decorated', async (value, injector) => value + (await injector.key1).length).resolveOnly(['decorated'], {})); // same for decorators
+
+const scopeDesign = Design.bind('scoped', async (injector: Injector<{ key1: string; request: number }>) => [
+    await injector.key1,
+    await injector.request,
+]);
+const scoped = baseDesign.resolve({ key0: 'string' }).then(({ createScope }) => {
+    createScope(scopeDesign, { request: 1 });
+    expectError(createScope(scopeDesign, {})); // insufficient requirements for the scope
+    expectError(createScope(Design.bind('conflicting', (injector: Injector<{ key1: number }>) => injector.key1), {})); // conflicting parent type
+});
+
+const factoryDesign = Design.bind('num', () => 1).bindFactory('createString', async injector => `${await injector.num}`);
+factoryDesign.resolve({}).then(({ container }) => {
+    expectType<() => Promise<string>>(container.createString);
+});
+expectError(factoryDesign.bind('wrongType', async (injector: Injector<{ createString: () => Promise<number> }>) => injector.createString).resolve({})); // conflicting factory type
+
+const contributions = Design.contribute('items', () => 1).merge(Design.contribute('items', () => 'one'));
+contributions.resolve({}).then(({ container }) => {
+    expectType<(number | string)[]>(container.items);
+});
+expectError(Design.contribute('items', (injector: Injector<{ config: string }>) => injector.config)
+    .merge(Design.contribute('items', () => 1))
+    .resolve({})); // insufficient requirements for contributions
+
+expectError(Design.bind('conflicting', () => 1).merge(Design.bind('conflicting', () => 'one'))); // conflicting value type
+const overridden = Design.bind('key', () => 1).merge(Design.bind('key', () => 2), { onConflict: 'error' });
+
+class AsyncDisposableResource {
+    public async [Symbol.asyncDispose]() {}
+}
+class DisposableResource {
+    public [Symbol.dispose]() {}
+}
+const disposables = Design.bindResource('asyncDisposable', () => new AsyncDisposableResource()).bindResource(
+    'disposable',
+    () => new DisposableResource(),
+);
+disposables.resolve({}).then(result => {
+    expectType<AsyncDisposableResource>(result.container.asyncDisposable);
+    expectType<DisposableResource>(result.container.disposable);
+    expectType<Promise<void>>(result[Symbol.asyncDispose]());
+});
+expectType<Promise<void>>(disposables.resolveLazy({})[Symbol.asyncDispose]());
+const disposed = async () => {
+    await using result = await disposables.resolve({});
+    await using lazy = disposables.resolveLazy({});
+    expectType<DisposableResource>(await lazy.container.disposable);
+    return result.container.asyncDisposable;
+};
+expectError(Design.bindResource('closable', () => ({ close: async () => undefined }))); // neither finalizable nor disposable
+
+const optional = Design.bind('cached', async (injector: Injector<{ cache?: Map<string, string> }>) => injector.cache);
+optional.resolve({});
+optional.resolve({ cache: new Map() });
+expectError(optional.resolve({ cache: 'cache' })); // invalid type for an optional dependency
+expectError(optional.bind('required', (injector: Injector<{ cache: Map<string, string> }>) => injector.cache).resolve({})); // required by another binding
+const defaults = Design.bindDefault('cache', () => new Map<string, string>()).merge(optional);
+defaults.resolve({});
+expectError(Design.bindDefault('cache', () => 'cache').merge(optional).resolve({})); // conflicting default type
+
+const family = Design.bind('url', () => 'db://').bindFamily('tenantDb', async (tenantId: string, injector) => ({
+    tenantId,
+    url: await injector.url,
+}));
+family.resolve({}).then(({ container }) => {
+    expectType<Promise<{ tenantId: string; url: string }>>(container.tenantDb.get('a'));
+    expectError(container.tenantDb.get(1)); // invalid parameter type
+});
+
+const decorated = Design.bind('num', () => 1)
+    .bind('dependent', async (injector: Injector<{ num: number }>) => injector.num)
+    .decorate('num', value => value + 1);
+decorated.resolve({}).then(({ container }) => {
+    expectType<number>(container.num);
+});
+const retyped = Design.bind('num', () => 1).decorate('num', value => `${value}`);
+retyped.resolve({}).then(({ container }) => {
+    expectType<string>(container.num);
+});
+expectError(Design.bind('num', () => 1).decorate('unknown', value => value)); // unknown key
+expectError(Design.bind('num', () => 1).decorate('num', async (value, injector: Injector<{ prefix: string }>) => `${await injector.prefix}${value}`).resolve({})); // insufficient requirements for the decorator
+expectError(Design.bindFamily('family', (param: string) => param).decorate('family', value => value)); // families cannot be decorated
+expectError(Design.contribute('items', () => 1).decorate('items', value => value)); // contributions cannot be decorated
+expectError(Design.module(Design.contribute('items', () => 1), { exports: ['items'] }).decorate('items', value => value)); // same for exported contributions
+Design.bind('num', () => 1).intercept(key => key === 'num', value => value).resolve({}).then(({ container }) => {
+    expectType<number>(container.num);
+});
+
+const usersModule = Design.module(
+    Design.bind('helper', async (injector: Injector<{ prefix: string }>) => `${await injector.prefix}user`).bind(
+        'users',
+        async injector => [await injector.helper],
+    ),
+    { exports: ['users'] },
+);
+usersModule.resolve({ prefix: '#' }).then(({ container }) => {
+    expectType<{ users: string[] }>(container);
+    expectError(container.helper); // private key
+});
+expectError(usersModule.resolve({})); // insufficient requirements of the module
+expectError(usersModule.resolve({ prefix: 1 })); // invalid requirement type
+expectError(Design.module(Design.bind('key', () => 1), { exports: ['unknown'] })); // unknown export
+usersModule.merge(Design.bind('helper', () => 1)).resolve({ prefix: '#' });
+
+const testedDesign = Design.bind('config', async (injector: Injector<{ env: string }>) => ({ url: `db://${await injector.env}` }))
+    .bind('repository', async injector => ({ find: async () => (await injector.config).url }));
+createTestContainer(testedDesign, { env: 'test', repository: { find: async () => 'fake' } });
+createTestContainer(testedDesign, { env: 'test', repository: async injector => ({ find: async () => (await injector.config).url }) });
+expectError(createTestContainer(testedDesign, { env: 'test', repository: 'repository' })); // invalid type for the override
+expectError(createTestContainer(testedDesign, { repository: { find: async () => 'fake' } })); // insufficient requirements
+expectError(testedDesign.override('config', { url: 1 })); // invalid type for the override
+
+expectType<ValidationReport>(baseDesign.validate({ key0: 123 })); // validates requirements of any type at runtime
+const declaredDesign = Design.bind('key1', declareDependencies((injector: Injector<HasKey0<string>>) => injector.key0, ['key0']));
+declaredDesign.resolve({ key0: 'string' });
+expectError(declaredDesign.resolve({})); // insufficient requirements
+
+baseDesign.resolve({ key0: 'string' }).then(({ report }) => {
+    expectType<UsageReport>(report({ slowest: 3 }));
+});
+expectType<UsageReport>(baseDesign.resolveLazy({ key0: 'string' }).report());
+
+const isPorts = (value: unknown): value is number[] => Array.isArray(value);
+Design.fromEnv({
+    port: { type: 'number', default: 8080 },
+    host: { type: 'string', name: 'HOSTNAME' },
+    debug: { type: 'boolean', required: false },
+    ports: { type: 'json', is: isPorts },
+    options: { type: 'json' },
+    logLevel: { type: 'enum', values: ['debug', 'info'] },
+}).resolve({}).then(({ container }) => {
+    expectType<number>(container.port);
+    expectType<string>(container.host);
+    expectType<boolean | undefined>(container.debug);
+    expectType<number[]>(container.ports);
+    expectType<unknown>(container.options);
+    expectType<'debug' | 'info'>(container.logLevel);
+});
+expectError(Design.fromEnv({ port: { type: 'number', default: '8080' } })); // invalid default
+expectError(Design.fromEnv({ port: { type: 'integer' } })); // unknown type
+
+class SmtpMailer { public smtp = true; }
+class FakeMailer { public sent: string[] = []; }
+const isTestProfile = async (injector: Injector<{ profile: string }>) => (await injector.profile) === 'test';
+const conditionalDesign = Design.bind('mailer', () => new SmtpMailer()).bindWhen(isTestProfile, 'mailer', () => new FakeMailer());
+conditionalDesign.resolve({ profile: 'test' }).then(({ container }) => {
+    expectType<SmtpMailer | FakeMailer>(container.mailer);
+});
+expectError(conditionalDesign.resolve({})); // insufficient requirements for the predicate
+Design.bindWhen(isTestProfile, 'mailer', async (injector: Injector<{ fakeId: number }>) => new FakeMailer())
+    .resolve({ profile: 'test', fakeId: 1 });
+expectError(Design.bindWhen(isTestProfile, 'mailer', async (injector: Injector<{ fakeId: number }>) => new FakeMailer())
+    .resolve({ profile: 'test' })); // insufficient requirements for the binding
+expectError(Design.bindFamily('family', (param: string) => param).bindWhen(isTestProfile, 'family', () => 1)); // families cannot be bound conditionally
+
+const selectedDesign = Design.select('profile', {
+    prod: Design.bind('mailer', async (injector: Injector<{ host: string }>) => new SmtpMailer()).bind('smtpOnly', () => 1),
+    test: Design.bind('mailer', () => new FakeMailer()),
+});
+selectedDesign.resolve({ profile: 'prod', host: 'localhost' }).then(({ container }) => {
+    expectType<SmtpMailer | FakeMailer>(container.mailer);
+    expectError(container.smtpOnly); // not bound in every branch
+});
+expectError(selectedDesign.resolve({ profile: 'staging', host: 'localhost' })); // unknown branch
+expectError(selectedDesign.resolve({ profile: 'prod' })); // insufficient requirements of a branch
+Design.fromEnv({ profile: { type: 'enum', values: ['prod', 'test'] } }).merge(selectedDesign).resolve({ host: 'localhost' });
+expectError(Design.fromEnv({ profile: { type: 'string' } }).merge(selectedDesign).resolve({ host: 'localhost' })); // selector may be no branch